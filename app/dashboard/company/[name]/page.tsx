@@ -0,0 +1,43 @@
+"use client";
+
+import { useConvexAuth } from "convex/react";
+import { useParams } from "next/navigation";
+import CompanyOverview from "@/components/CompanyOverview";
+import Sidebar from "@/components/Sidebar";
+
+/**
+ * Company page component - a company's postings and the user's applications there.
+ *
+ * Features:
+ * - Reached by clicking a company in the opportunities or applications list
+ * - Accepts the canonical name or any alias of the company in the URL
+ * - Sidebar for additional functionality
+ * - Loading state handling
+ *
+ * @returns {JSX.Element} The company page layout
+ */
+export default function CompanyPage() {
+  const params = useParams<{ name: string }>();
+  // Authentication state from Convex
+  const { isLoading, isAuthenticated } = useConvexAuth();
+
+  // Show loader while authentication is being verified
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="w-full flex justify-center items-center h-screen">
+        <span className="loading loading-dots loading-xl"></span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-1 h-screen p-8">
+      <div className="flex-1 flex">
+        {/* useParams has already decoded the name the links encode */}
+        <CompanyOverview name={params.name} />
+      </div>
+      {/* Sidebar for nav/import/account functionality */}
+      <Sidebar />
+    </div>
+  );
+}
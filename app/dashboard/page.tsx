@@ -2,16 +2,21 @@
 
 import { useConvexAuth } from "convex/react";
 import { useState } from "react";
-import { TextAlignJustify, Book, Sprout } from "lucide-react";
+import { TextAlignJustify, Book, Sprout, ChartColumn } from "lucide-react";
 import ApplicationList from "@/components/ApplicationList";
 import OpportunitiesList from "@/components/OpportunitiesList";
 import Sidebar from "@/components/Sidebar";
+import StatsView from "@/components/StatsView";
+import NotificationBell from "@/components/NotificationBell";
+import EventAgenda from "@/components/EventAgenda";
 
 /**
  * Dashboard page component - the main interface for managing internship applications.
  *
  * Features:
- * - View toggle between applications and opportunities
+ * - View toggle between applications, opportunities and stats
+ * - Notification bell for new matches, stale applications and closed postings
+ * - Agenda of upcoming interviews and deadlines
  * - Sidebar for additional functionality
  * - Loading state handling
  * - Responsive layout with proper spacing
@@ -19,7 +24,7 @@ import Sidebar from "@/components/Sidebar";
  * @returns {JSX.Element} The complete dashboard layout
  */
 export default function Dashboard() {
-  // State to track which view is currently active (list, opportunities, resources)
+  // State to track which view is currently active (list, opportunities, stats, resources)
   const [view, setView] = useState("list");
   // Authentication state from Convex
   const { isLoading, isAuthenticated } = useConvexAuth();
@@ -37,18 +42,26 @@ export default function Dashboard() {
     <div className="flex flex-1 h-screen p-8">
       {isAuthenticated && !isLoading ? (
         <>
-          {/* Main content area - displays either applications or opportunities */}
+          {/* Main content area - displays applications, opportunities or stats */}
           <div className="flex-1 items-center justify-center">
-            {view === "list" ? <ApplicationList /> : <OpportunitiesList />}
+            {view === "list" ? (
+              <ApplicationList />
+            ) : view === "stats" ? (
+              <StatsView />
+            ) : (
+              <OpportunitiesList />
+            )}
           </div>
           {/* Sidebar for nav/import/account functionality */}
           <Sidebar />
-          {/* View toggle controls positioned on the right */}
-          <div className="ml-auto">
-            <ViewToggle
-              showingList={view === "list"}
-              setShowingList={setView}
-            />
+          {/* Notifications, view toggle and agenda positioned on the right */}
+          <div className="ml-auto flex flex-col gap-2">
+            <div className="flex justify-end">
+              <NotificationBell />
+            </div>
+            <ViewToggle view={view} setView={setView} />
+            <div className="divider my-2"></div>
+            <EventAgenda />
           </div>
         </>
       ) : (
@@ -66,18 +79,19 @@ export default function Dashboard() {
  * Provides buttons to switch between:
  * - Applications list (current user's applications)
  * - Opportunities list (available internship opportunities)
+ * - Stats (funnel and response-time analytics)
  * - Resources (disabled - future feature)
  *
- * @param showingList - Whether the applications list is currently shown
- * @param setShowingList - Function to change the active view
+ * @param view - The currently active view
+ * @param setView - Function to change the active view
  * @returns {JSX.Element} Toggle buttons for view switching
  */
 function ViewToggle({
-  showingList,
-  setShowingList,
+  view,
+  setView,
 }: {
-  showingList: boolean;
-  setShowingList: (view: string) => void;
+  view: string;
+  setView: (view: string) => void;
 }) {
   return (
     <div className="flex flex-col gap-2 max-w-xs">
@@ -85,8 +99,8 @@ function ViewToggle({
 
       {/* Applications view button */}
       <button
-        className={`btn btn-primary w-full ${showingList ? "" : "btn-soft"}`}
-        onClick={() => setShowingList("list")}
+        className={`btn btn-primary w-full ${view === "list" ? "" : "btn-soft"}`}
+        onClick={() => setView("list")}
       >
         <TextAlignJustify className="w-4 h-4" />
         Applications
@@ -94,19 +108,24 @@ function ViewToggle({
 
       {/* Opportunities view button */}
       <button
-        className={`btn btn-primary ${showingList ? "btn-soft" : ""}`}
-        onClick={() => setShowingList("opportunities")}
+        className={`btn btn-primary ${view === "opportunities" ? "" : "btn-soft"}`}
+        onClick={() => setView("opportunities")}
       >
         <Sprout className="w-4 h-4" />
         Opportunities
       </button>
 
-      {/* Resources view button (disabled - future feature) */}
+      {/* Stats view button */}
       <button
-        className={`btn btn-primary ${showingList ? "btn-soft" : ""}`}
-        onClick={() => setShowingList("opportunities")}
-        disabled
+        className={`btn btn-primary ${view === "stats" ? "" : "btn-soft"}`}
+        onClick={() => setView("stats")}
       >
+        <ChartColumn className="w-4 h-4" />
+        Stats
+      </button>
+
+      {/* Resources view button (disabled - future feature) */}
+      <button className="btn btn-primary btn-soft" disabled>
         <Book className="w-4 h-4" />
         Resources
       </button>
@@ -1,15 +0,0 @@
-"use client";
-
-export default function page() {
-  return (
-    <div>
-      <button
-        onClick={() => {
-          fetch("/api/cron/scrape");
-        }}
-      >
-        Scrape
-      </button>
-    </div>
-  );
-}
@@ -0,0 +1,191 @@
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { statusUnion } from "@/convex/unions";
+import { useMutation } from "convex/react";
+import { Infer } from "convex/values";
+import { ExternalLink } from "lucide-react";
+import { memo, useCallback, useMemo } from "react";
+import { ReactSortable } from "react-sortablejs";
+import ApplicationPopover from "./ApplicationPopover";
+import OpportunityClosedBadge from "./OpportunityClosedBadge";
+
+// Board columns, one per application status
+const statuses: Infer<typeof statusUnion>[] = [
+  "interested",
+  "applied",
+  "assessment",
+  "interviewed",
+  "offered",
+  "rejected",
+  "archived",
+];
+
+/**
+ * Interface defining the structure of items in a board column
+ * Wraps an application with the unique ID required by ReactSortable
+ */
+interface CardType {
+  id: string;
+  application: Doc<"applications">;
+}
+
+/**
+ * ApplicationBoard component - displays applications as a kanban board.
+ *
+ * Features:
+ * - One column per application status
+ * - Drag a card between columns to update its status
+ * - Optimistic updates so cards move instantly
+ * - Click a card to open the detailed modal
+ *
+ * @param applications - The (filtered) applications to display
+ * @returns {JSX.Element} Kanban board of applications grouped by status
+ */
+export default function ApplicationBoard({
+  applications,
+}: {
+  applications: Doc<"applications">[];
+}) {
+  // Mutation for updating status, applied optimistically to the cached list
+  const updateStatus = useMutation(
+    api.applications.updateStatus,
+  ).withOptimisticUpdate((localStore, args) => {
+    const current = localStore.getQuery(api.applications.getApplications);
+    if (current === undefined) return;
+
+    localStore.setQuery(
+      api.applications.getApplications,
+      {},
+      current.map((application) =>
+        application._id === args.id
+          ? { ...application, status: args.status }
+          : application,
+      ),
+    );
+  });
+
+  // Group applications into columns by status
+  const columns = useMemo(() => {
+    const grouped = new Map<string, CardType[]>(
+      statuses.map((status) => [status, []]),
+    );
+    applications.forEach((application) => {
+      grouped.get(application.status)?.push({
+        id: application._id.toString(),
+        application,
+      });
+    });
+    return grouped;
+  }, [applications]);
+
+  // Handle a card dropped into a different column
+  const handleMove = useCallback(
+    (id: string | undefined, status: Infer<typeof statusUnion>) => {
+      if (!id) return;
+
+      const application = applications.find((a) => a._id.toString() === id);
+      if (!application || application.status === status) return;
+
+      updateStatus({ id: id as Id<"applications">, status });
+    },
+    [applications, updateStatus],
+  );
+
+  return (
+    <div className="h-[40.5rem] overflow-x-auto flex gap-2">
+      {statuses.map((status) => {
+        const cards = columns.get(status) ?? [];
+        return (
+          <div
+            key={status}
+            className="flex flex-col gap-2 min-w-56 w-56 bg-base-100 rounded-box shadow-md p-2"
+          >
+            {/* Column header with status name and card count */}
+            <div className="flex justify-between items-center px-1">
+              <h3 className="font-semibold text-sm">
+                {status.charAt(0).toUpperCase() + status.slice(1)}
+              </h3>
+              <span className="badge badge-sm">{cards.length}</span>
+            </div>
+            {/* Sortable column; rendering follows the query, not local state */}
+            <ReactSortable
+              list={cards}
+              setList={() => {}}
+              group="applications"
+              sort={false}
+              animation={200}
+              className="flex flex-col gap-2 flex-1 overflow-y-auto min-h-12"
+              onAdd={(evt) => handleMove(evt.item.dataset.id, status)}
+            >
+              {cards.map((card) => (
+                <ApplicationBoardCard
+                  key={card.id}
+                  application={card.application}
+                />
+              ))}
+            </ReactSortable>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * ApplicationBoardCard component - renders a single application on the board.
+ *
+ * @param application - The application data to display
+ * @returns {JSX.Element} Draggable application card with detail modal
+ */
+const ApplicationBoardCard = memo(function ApplicationBoardCard({
+  application,
+}: {
+  application: Doc<"applications">;
+}) {
+  // Mutation for deleting applications
+  const deleteApplication = useMutation(api.applications.deleteApplication);
+
+  // Handle application deletion
+  const handleDeleteApplication = () => {
+    deleteApplication({ id: application._id });
+  };
+
+  return (
+    <div data-id={application._id.toString()}>
+      {/* Clickable application card */}
+      <div
+        onClick={() => {
+          const modal = document?.getElementById(
+            application._id.toString(),
+          ) as HTMLDialogElement | null;
+          modal?.showModal?.();
+        }}
+        className="p-3 cursor-grab rounded-md bg-base-200 hover:bg-base-300 transition-colors flex flex-row justify-between items-start gap-2"
+      >
+        {/* Company and title information */}
+        <div className="flex flex-col min-w-0">
+          <div className="font-semibold truncate">{application.company}</div>
+          <div className="text-sm opacity-70 truncate">{application.title}</div>
+          <OpportunityClosedBadge application={application} />
+        </div>
+        {/* External link button if available */}
+        {application.link && (
+          <button
+            className="btn btn-square btn-xs btn-info btn-soft"
+            onClick={(e) => {
+              e.stopPropagation();
+              window.open(application.link, "_blank");
+            }}
+          >
+            <ExternalLink className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      {/* Modal popover for detailed view */}
+      <ApplicationPopover
+        application={application}
+        handleDeleteApplication={handleDeleteApplication}
+      />
+    </div>
+  );
+});
@@ -2,13 +2,24 @@ import { useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Doc } from "@/convex/_generated/dataModel";
 import StatusDropdown from "./StatusDropdown";
-import { Search, ClipboardPaste, ExternalLink, Plus } from "lucide-react";
+import {
+  Search,
+  ClipboardPaste,
+  ExternalLink,
+  Plus,
+  List,
+  Columns3,
+} from "lucide-react";
 import { useState, useMemo, memo, useCallback, useRef } from "react";
 import Fuse from "fuse.js";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { z } from "zod";
 import { ApplicationSkeletonLoader } from "./SkeletonLoader";
 import ApplicationPopover from "./ApplicationPopover";
+import ApplicationBoard from "./ApplicationBoard";
+import OpportunityClosedBadge from "./OpportunityClosedBadge";
+import ReminderActions from "./ReminderActions";
+import Link from "next/link";
 
 // Zod schema for validating application form input
 const formInfoSchema = z.object({
@@ -48,6 +59,8 @@ const formInfoSchema = z.object({
  *
  * Features:
  * - Virtualized list for performance with large datasets
+ * - Kanban board mode grouped by status
+ * - Follow-ups due today or overdue, above the list
  * - Real-time search with fuzzy matching
  * - Application creation form with validation
  * - Status management and editing
@@ -60,6 +73,8 @@ export default function ApplicationList() {
   const applications = useQuery(api.applications.getApplications);
   // Search query state for filtering applications
   const [searchQuery, setSearchQuery] = useState("");
+  // Layout mode: virtualized list or kanban board
+  const [layout, setLayout] = useState<"list" | "board">("list");
   // Ref for the scrollable container
   const parentRef = useRef<HTMLDivElement>(null);
 
@@ -92,63 +107,89 @@ export default function ApplicationList() {
         setSearchQuery={setSearchQuery}
       />
       <div className="flex flex-col gap-2 w-full">
-        <h2 className="text-lg font-semibold">Applications</h2>
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold">Applications</h2>
+          {/* Layout toggle between list and board */}
+          <div className="join">
+            <button
+              className={`btn btn-sm btn-square join-item ${layout === "list" ? "btn-primary" : ""}`}
+              onClick={() => setLayout("list")}
+            >
+              <List className="w-4 h-4" />
+            </button>
+            <button
+              className={`btn btn-sm btn-square join-item ${layout === "board" ? "btn-primary" : ""}`}
+              onClick={() => setLayout("board")}
+            >
+              <Columns3 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
         {/* Form for creating new applications */}
         <ApplicationInput />
-        {/* Virtualized list container */}
-        <div
-          ref={parentRef}
-          className="h-[40.5rem] overflow-auto bg-base-100 rounded-box shadow-md"
-          style={{
-            contain: "strict",
-          }}
-        >
-          {applications === undefined ? (
-            // Show skeleton loader while data is loading
-            <ApplicationSkeletonLoader count={20} height={60} />
-          ) : filteredApplications.length === 0 ? (
-            // Show message when no results found
-            <div className="p-4 text-center max-w-sm mx-auto text-secondary-content h-full flex justify-center items-center">
-              You haven&apos;t listed any applications yet! Switch to the
-              opportunities view to find some, or import existing ones from the
-              sidebar.
-            </div>
-          ) : (
-            // Virtualized list rendering
-            <div
-              style={{
-                height: `${virtualizer.getTotalSize()}px`,
-                width: "100%",
-                position: "relative",
-              }}
-            >
-              {virtualizer.getVirtualItems().map((virtualItem) => {
-                const application = filteredApplications[virtualItem.index];
-                return (
-                  <div
-                    key={application._id.toString()}
-                    style={{
-                      position: "absolute",
-                      top: 0,
-                      left: 0,
-                      width: "100%",
-                      height: `${virtualItem.size}px`,
-                      transform: `translateY(${virtualItem.start}px)`,
-                      zIndex: 1000 - virtualItem.index, // Higher items get higher z-index
-                    }}
-                  >
+        {/* Follow-up reminders that need attention */}
+        {applications !== undefined && (
+          <DueReminders applications={applications} />
+        )}
+        {layout === "board" && applications !== undefined ? (
+          // Kanban board grouped by status
+          <ApplicationBoard applications={filteredApplications} />
+        ) : (
+          // Virtualized list container
+          <div
+            ref={parentRef}
+            className="h-[40.5rem] overflow-auto bg-base-100 rounded-box shadow-md"
+            style={{
+              contain: "strict",
+            }}
+          >
+            {applications === undefined ? (
+              // Show skeleton loader while data is loading
+              <ApplicationSkeletonLoader count={20} height={60} />
+            ) : filteredApplications.length === 0 ? (
+              // Show message when no results found
+              <div className="p-4 text-center max-w-sm mx-auto text-secondary-content h-full flex justify-center items-center">
+                You haven&apos;t listed any applications yet! Switch to the
+                opportunities view to find some, or import existing ones from
+                the sidebar.
+              </div>
+            ) : (
+              // Virtualized list rendering
+              <div
+                style={{
+                  height: `${virtualizer.getTotalSize()}px`,
+                  width: "100%",
+                  position: "relative",
+                }}
+              >
+                {virtualizer.getVirtualItems().map((virtualItem) => {
+                  const application = filteredApplications[virtualItem.index];
+                  return (
                     <div
-                      ref={virtualizer.measureElement}
-                      data-index={virtualItem.index}
+                      key={application._id.toString()}
+                      style={{
+                        position: "absolute",
+                        top: 0,
+                        left: 0,
+                        width: "100%",
+                        height: `${virtualItem.size}px`,
+                        transform: `translateY(${virtualItem.start}px)`,
+                        zIndex: 1000 - virtualItem.index, // Higher items get higher z-index
+                      }}
                     >
-                      <ApplicationListItem application={application} />
+                      <div
+                        ref={virtualizer.measureElement}
+                        data-index={virtualItem.index}
+                      >
+                        <ApplicationListItem application={application} />
+                      </div>
                     </div>
-                  </div>
-                );
-              })}
-            </div>
-          )}
-        </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -161,6 +202,8 @@ export default function ApplicationList() {
  * - Click to open detailed modal
  * - Status dropdown for quick updates
  * - External link access
+ * - Company name links to the company page
+ * - Closed badge when the linked opportunity has closed
  * - Delete functionality
  *
  * @param application - The application data to display
@@ -201,8 +244,16 @@ const ApplicationListItem = memo(function ApplicationListItem({
       >
         {/* Company and title information */}
         <div className="flex items-center gap-2 flex-1 my-1 cursor-pointer">
-          <div className="font-semibold">{application.company}</div>
+          <Link
+            href={`/dashboard/company/${encodeURIComponent(application.company)}`}
+            className="font-semibold hover:underline"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {application.company}
+          </Link>
           <div className="text-sm opacity-70">{application.title}</div>
+          {/* Flag applications whose linked posting has closed */}
+          <OpportunityClosedBadge application={application} />
         </div>
         {/* Action buttons */}
         <div className="flex items-center gap-2">
@@ -228,6 +279,82 @@ const ApplicationListItem = memo(function ApplicationListItem({
   );
 });
 
+/**
+ * DueReminders component - lists follow-ups due today or overdue.
+ *
+ * Features:
+ * - Reminders of every application due by the end of today, oldest first
+ * - Overdue (before today) and due today badges
+ * - Company name links to the company page
+ * - Snooze or complete each reminder
+ *
+ * @param applications - The user's applications
+ * @returns {JSX.Element} Due reminders section, or null if nothing is due
+ */
+const DueReminders = memo(function DueReminders({
+  applications,
+}: {
+  applications: Doc<"applications">[];
+}) {
+  // Reminders due by the end of today (local time), oldest first
+  const dueReminders = useMemo(() => {
+    const startOfToday = new Date().setHours(0, 0, 0, 0);
+    const endOfToday = new Date().setHours(24, 0, 0, 0);
+
+    return applications
+      .flatMap((application) =>
+        (application.reminders ?? [])
+          .filter((reminder) => reminder.isDue || reminder.at < endOfToday)
+          .map((reminder) => ({
+            application,
+            reminder,
+            isOverdue: reminder.at < startOfToday,
+          })),
+      )
+      .sort((a, b) => a.reminder.at - b.reminder.at);
+  }, [applications]);
+
+  if (dueReminders.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-1 bg-base-100 rounded-box shadow-md p-2">
+      <h3 className="text-sm font-semibold text-base-content/70 uppercase tracking-wide px-2">
+        Due today / overdue
+      </h3>
+      {dueReminders.map(({ application, reminder, isOverdue }) => (
+        <div
+          key={reminder.id}
+          className="flex flex-row items-center gap-2 px-2 py-1 rounded-md hover:bg-base-200"
+        >
+          <span
+            className={`badge badge-sm badge-soft ${isOverdue ? "badge-error" : "badge-warning"}`}
+          >
+            {isOverdue ? "Overdue" : "Today"}
+          </span>
+          <Link
+            href={`/dashboard/company/${encodeURIComponent(application.company)}`}
+            className="font-semibold hover:underline"
+          >
+            {application.company}
+          </Link>
+          <span className="text-sm opacity-70 flex-1 truncate">
+            {reminder.note ?? application.title}
+          </span>
+          <span className="text-xs opacity-50 whitespace-nowrap">
+            {new Date(reminder.at).toLocaleString([], {
+              month: "short",
+              day: "numeric",
+              hour: "numeric",
+              minute: "2-digit",
+            })}
+          </span>
+          <ReminderActions application={application} reminder={reminder} />
+        </div>
+      ))}
+    </div>
+  );
+});
+
 /**
  * ApplicationFilter component - provides search functionality for applications.
  *
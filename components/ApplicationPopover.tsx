@@ -4,7 +4,10 @@ import { Doc } from "@/convex/_generated/dataModel";
 import { useState, useMemo, useCallback, useEffect } from "react";
 import StatusDropdown from "./StatusDropdown";
 import SortableList from "./SortableList";
+import FollowUpList from "./FollowUpList";
+import EventTimeline from "./EventTimeline";
 import debounce from "@/utils/debounce";
+import { getStatusHistory } from "@/convex/history";
 import Link from "next/link";
 import { Link as LinkIcon, Trash, X } from "lucide-react";
 
@@ -14,7 +17,9 @@ import { Link as LinkIcon, Trash, X } from "lucide-react";
  * Features:
  * - Editable notes with auto-save functionality
  * - Status management with dropdown
- * - Application history tracking
+ * - Dated application history tracking
+ * - Timeline of scheduled interviews and deadlines
+ * - Follow-up reminders
  * - External link access
  * - Delete functionality
  *
@@ -39,6 +44,12 @@ export default function ApplicationPopover({
     setLocalNotes(application.notes || "");
   }, [application.notes]);
 
+  // Timestamped status history (memoized so the sortable list only resets on change)
+  const statusHistory = useMemo(
+    () => getStatusHistory(application),
+    [application],
+  );
+
   // Debounced update function to prevent excessive API calls while typing
   const debouncedUpdate = useMemo(
     () =>
@@ -137,13 +148,22 @@ export default function ApplicationPopover({
             </div>
             {/* Sortable list showing current status and history */}
             <div className="join join-vertical w-full">
-              <SortableList
-                list={[application.status, ...(application.history || [])]}
-                id={application._id}
-              />
+              <SortableList list={statusHistory} id={application._id} />
             </div>
           </div>
         </div>
+
+        {/* Scheduled interviews and deadlines */}
+        <div className="flex flex-col gap-2 pt-4">
+          <h4 className="font-semibold text-base">Timeline</h4>
+          <EventTimeline application={application} />
+        </div>
+
+        {/* Follow-up reminders */}
+        <div className="flex flex-col gap-2 pt-4">
+          <h4 className="font-semibold text-base">Follow-ups</h4>
+          <FollowUpList application={application} />
+        </div>
       </div>
       <form method="dialog" className="modal-backdrop">
         <button>close</button>
@@ -0,0 +1,272 @@
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { useMutation, useQuery } from "convex/react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  Check,
+  ExternalLink,
+  Globe,
+  History,
+  Lock,
+  Plus,
+} from "lucide-react";
+import { SkeletonLoader } from "./SkeletonLoader";
+import StatusDropdown from "./StatusDropdown";
+import ApplicationPopover from "./ApplicationPopover";
+import OpportunityClosedBadge from "./OpportunityClosedBadge";
+
+/**
+ * CompanyOverview component - everything about one company on one page.
+ *
+ * Features:
+ * - Company name, other names it is listed under and website
+ * - The user's applications there with their status and notes
+ * - Every scraped posting of the company, flagged when closed or older
+ * - One-click application creation from postings not applied to yet
+ *
+ * @param name - Canonical name or any alias of the company
+ * @returns {JSX.Element} Company page content
+ */
+export default function CompanyOverview({ name }: { name: string }) {
+  const overview = useQuery(api.companies.getCompanyOverview, { name });
+
+  if (overview === undefined) {
+    return (
+      <div className="flex flex-col gap-2 w-full">
+        <SkeletonLoader count={10} height={60} />
+      </div>
+    );
+  }
+
+  if (overview === null) {
+    return (
+      <div className="flex flex-col gap-2 w-full">
+        <BackLink />
+        <p className="text-sm opacity-70">
+          No company named &quot;{name}&quot; was found.
+        </p>
+      </div>
+    );
+  }
+
+  const { company, opportunities, applications } = overview;
+
+  return (
+    <div className="flex flex-col gap-6 w-full overflow-y-auto">
+      <div className="flex flex-col gap-1">
+        <BackLink />
+        <h2 className="text-2xl font-semibold">{company.name}</h2>
+        {company.aliases.length > 0 && (
+          <p className="text-sm opacity-70">
+            Also listed as {company.aliases.join(", ")}
+          </p>
+        )}
+        {company.domain && (
+          <Link
+            href={`https://${company.domain}`}
+            target="_blank"
+            className="link link-primary text-sm flex items-center gap-1 w-fit"
+          >
+            <Globe className="w-4 h-4" />
+            {company.domain}
+          </Link>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <h3 className="text-lg font-semibold">
+          My applications ({applications.length})
+        </h3>
+        {applications.length === 0 ? (
+          <p className="text-sm opacity-70">
+            You haven&apos;t applied to {company.name} yet.
+          </p>
+        ) : (
+          applications.map((application) => (
+            <CompanyApplicationItem
+              key={application._id}
+              application={application}
+            />
+          ))
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <h3 className="text-lg font-semibold">
+          Postings ({opportunities.length})
+        </h3>
+        {opportunities.length === 0 ? (
+          <p className="text-sm opacity-70">
+            No postings from {company.name} have been scraped.
+          </p>
+        ) : (
+          <CompanyOpportunityList opportunities={opportunities} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Link back to the dashboard
+ *
+ * @returns {JSX.Element} Back link
+ */
+function BackLink() {
+  return (
+    <Link href="/dashboard" className="btn btn-ghost btn-sm w-fit">
+      <ArrowLeft className="w-4 h-4" />
+      Dashboard
+    </Link>
+  );
+}
+
+/**
+ * CompanyApplicationItem component - one of the user's applications.
+ *
+ * Features:
+ * - Title, status dropdown and closed-posting badge
+ * - Notes shown in full
+ * - Click to open the application details modal
+ *
+ * @param application - The application to display
+ * @returns {JSX.Element} Application row with notes
+ */
+function CompanyApplicationItem({
+  application,
+}: {
+  application: Doc<"applications">;
+}) {
+  // Mutation for deleting applications
+  const deleteApplication = useMutation(api.applications.deleteApplication);
+
+  return (
+    <div className="relative">
+      <div
+        onClick={(e) => {
+          // Prevent modal opening when clicking dropdown buttons
+          const isDropdownClick =
+            e.target instanceof Element &&
+            (e.target.closest(".dropdown") ||
+              e.target.closest('[role="button"]'));
+
+          if (!isDropdownClick) {
+            const modal = document?.getElementById(
+              application._id.toString(),
+            ) as HTMLDialogElement | null;
+            modal?.showModal?.();
+          }
+        }}
+        className="p-4 cursor-pointer rounded-md hover:bg-base-200 transition-colors flex flex-col gap-1"
+      >
+        <div className="flex flex-row justify-between items-center gap-2">
+          <div className="flex items-center gap-2 flex-1">
+            <div className="font-semibold">{application.title}</div>
+            <OpportunityClosedBadge application={application} />
+          </div>
+          <StatusDropdown application={application} size="sm" />
+        </div>
+        {application.notes && (
+          <p className="text-sm opacity-70 whitespace-pre-wrap">
+            {application.notes}
+          </p>
+        )}
+      </div>
+      <ApplicationPopover
+        application={application}
+        handleDeleteApplication={() =>
+          deleteApplication({ id: application._id })
+        }
+      />
+    </div>
+  );
+}
+
+/**
+ * CompanyOpportunityList component - the company's scraped postings.
+ *
+ * Features:
+ * - Title, location and posting date
+ * - Closed and older badges
+ * - Check for postings already added to applications, add button otherwise
+ * - Link to the job posting
+ *
+ * @param opportunities - The company's opportunities
+ * @returns {JSX.Element} Posting rows
+ */
+function CompanyOpportunityList({
+  opportunities,
+}: {
+  opportunities: Doc<"opportunities">[];
+}) {
+  // Opportunities the user already added to their applications
+  const suggestedApplications = useQuery(
+    api.applications.getSuggestedApplications,
+  );
+  // Mutation for adding opportunity as application
+  const addApplication = useMutation(
+    api.opportunities.addSuggestionToApplications,
+  );
+
+  return (
+    <>
+      {opportunities.map((opportunity) => {
+        const isAdded = suggestedApplications?.includes(opportunity._id);
+
+        return (
+          <div
+            key={opportunity._id}
+            className="p-4 rounded-md hover:bg-base-200 transition-colors flex flex-row justify-between items-center gap-2"
+          >
+            <div className="flex items-center gap-2 flex-1">
+              <div className="font-semibold">{opportunity.title}</div>
+              {opportunity.location && (
+                <div className="text-sm opacity-70">
+                  ({opportunity.location})
+                </div>
+              )}
+              {opportunity.isOpen === false && (
+                <span className="badge badge-sm badge-soft badge-error">
+                  <Lock className="w-3 h-3" />
+                  Closed
+                </span>
+              )}
+              {opportunity.isStale && (
+                <span className="badge badge-sm badge-soft badge-warning">
+                  <History className="w-3 h-3" />
+                  Older
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-xs opacity-70 whitespace-nowrap">
+                {new Date(opportunity.createdAt).toLocaleDateString()}
+              </span>
+              {opportunity.link && (
+                <button
+                  className="btn btn-square btn-sm btn-info btn-soft"
+                  onClick={() => window.open(opportunity.link, "_blank")}
+                >
+                  <ExternalLink className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                className={`btn btn-square btn-sm ${isAdded ? "btn-disabled" : ""}`}
+                onClick={() =>
+                  addApplication({ opportunityId: opportunity._id })
+                }
+              >
+                {isAdded ? (
+                  <Check className="w-4 h-4" />
+                ) : (
+                  <Plus className="w-4 h-4" />
+                )}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+}
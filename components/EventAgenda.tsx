@@ -0,0 +1,83 @@
+import { api } from "@/convex/_generated/api";
+import { useQuery } from "convex/react";
+import { eventKindLabels } from "@/convex/unions";
+import Link from "next/link";
+import { EVENT_KIND_BADGES, EVENT_KIND_ICONS } from "./EventTimeline";
+import { formatInTimeZone, getLocalTimeZone } from "@/utils/timezone";
+
+/**
+ * Describes how far away a timestamp is ("in 3 hours", "in 2 days")
+ */
+function formatCountdown(timestamp: number): string {
+  const hours = Math.round((timestamp - Date.now()) / (60 * 60 * 1000));
+  if (hours < 1) return "within the hour";
+  if (hours < 24) return `in ${hours} ${hours === 1 ? "hour" : "hours"}`;
+  const days = Math.round(hours / 24);
+  return `in ${days} ${days === 1 ? "day" : "days"}`;
+}
+
+/**
+ * EventAgenda component - the user's upcoming interviews and deadlines.
+ *
+ * Features:
+ * - Next scheduled events across all applications, earliest first
+ * - Kind badge, company, local time and countdown per event
+ * - Company name links to the company page
+ *
+ * @returns {JSX.Element} Upcoming events agenda
+ */
+export default function EventAgenda() {
+  const events = useQuery(api.events.getUpcomingEvents);
+  const localTimeZone = getLocalTimeZone();
+
+  return (
+    <div className="flex flex-col gap-2 max-w-xs">
+      <h2 className="text-lg font-semibold">Upcoming</h2>
+      {events === undefined ? (
+        <span className="loading loading-dots loading-sm"></span>
+      ) : events.length === 0 ? (
+        <p className="text-sm opacity-70">
+          Nothing scheduled. Add interviews and deadlines from an
+          application&apos;s details.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-2 max-h-96 overflow-y-auto">
+          {events.map((event) => {
+            const Icon = EVENT_KIND_ICONS[event.kind];
+
+            return (
+              <li
+                key={event._id}
+                className="flex flex-col gap-1 p-2 rounded-md bg-base-200"
+              >
+                <div className="flex flex-row items-center justify-between gap-2">
+                  <span
+                    className={`badge badge-sm badge-soft ${EVENT_KIND_BADGES[event.kind]}`}
+                  >
+                    <Icon className="w-3 h-3" />
+                    {eventKindLabels[event.kind]}
+                  </span>
+                  <span className="text-xs opacity-70">
+                    {formatCountdown(event.startsAt)}
+                  </span>
+                </div>
+                <Link
+                  href={`/dashboard/company/${encodeURIComponent(event.company)}`}
+                  className="text-sm font-semibold hover:underline truncate"
+                >
+                  {event.company}
+                </Link>
+                <span className="text-xs opacity-70 truncate">
+                  {event.title}
+                </span>
+                <span className="text-xs">
+                  {formatInTimeZone(event.startsAt, localTimeZone)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
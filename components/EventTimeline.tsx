@@ -0,0 +1,246 @@
+import { api } from "@/convex/_generated/api";
+import { useMutation, useQuery } from "convex/react";
+import { Doc } from "@/convex/_generated/dataModel";
+import { eventKindLabels } from "@/convex/unions";
+import { useMemo, useState } from "react";
+import {
+  BadgeDollarSign,
+  Building2,
+  CalendarClock,
+  ClipboardList,
+  MapPin,
+  Phone,
+  Plus,
+  Trash,
+  Video,
+} from "lucide-react";
+import {
+  formatInTimeZone,
+  fromZonedInputValue,
+  getLocalTimeZone,
+  getTimeZones,
+  toZonedInputValue,
+} from "@/utils/timezone";
+
+type EventKind = Doc<"events">["kind"];
+
+// Icon per event kind
+export const EVENT_KIND_ICONS: Record<EventKind, typeof Phone> = {
+  phone_screen: Phone,
+  oa_deadline: ClipboardList,
+  onsite: Building2,
+  offer_deadline: BadgeDollarSign,
+  other: CalendarClock,
+};
+
+// Badge style per event kind; offer deadlines stand out
+export const EVENT_KIND_BADGES: Record<EventKind, string> = {
+  phone_screen: "badge-info",
+  oa_deadline: "badge-warning",
+  onsite: "badge-primary",
+  offer_deadline: "badge-error",
+  other: "badge-neutral",
+};
+
+/**
+ * Returns 9 AM tomorrow in a time zone, the default event time
+ */
+function getDefaultStart(timeZone: string): string {
+  const tomorrow = toZonedInputValue(
+    Date.now() + 24 * 60 * 60 * 1000,
+    timeZone,
+  );
+  return `${tomorrow.slice(0, 10)}T09:00`;
+}
+
+/**
+ * EventTimeline component - scheduled interviews and deadlines of an application.
+ *
+ * Features:
+ * - Timeline of events ordered by time, past events dimmed
+ * - Times shown in the event's time zone, plus local time when different
+ * - Location or video link, and editable notes per event
+ * - Schedule events with a kind, time, time zone and location or video link
+ * - Delete events
+ *
+ * @param application - The application whose events to show
+ * @returns {JSX.Element} Event timeline with add form
+ */
+export default function EventTimeline({
+  application,
+}: {
+  application: Doc<"applications">;
+}) {
+  // Every popover shares this subscription; pick this application's events
+  const allEvents = useQuery(api.events.getEvents);
+  const createEvent = useMutation(api.events.createEvent);
+  const updateEvent = useMutation(api.events.updateEvent);
+  const deleteEvent = useMutation(api.events.deleteEvent);
+
+  const localTimeZone = useMemo(() => getLocalTimeZone(), []);
+  const timeZones = useMemo(() => getTimeZones(), []);
+
+  // Form state for a new event
+  const [kind, setKind] = useState<EventKind>("phone_screen");
+  const [timeZone, setTimeZone] = useState(localTimeZone);
+  const [start, setStart] = useState(() => getDefaultStart(localTimeZone));
+  const [place, setPlace] = useState("");
+  const [error, setError] = useState("");
+
+  const events = useMemo(
+    () =>
+      (allEvents ?? []).filter(
+        (event) => event.applicationId === application._id,
+      ),
+    [allEvents, application._id],
+  );
+  const now = Date.now();
+
+  const handleAdd = async () => {
+    const startsAt = fromZonedInputValue(start, timeZone);
+    if (isNaN(startsAt)) return;
+
+    // Links are video calls, anything else is a location
+    const trimmed = place.trim();
+    const isLink = /^https?:\/\//i.test(trimmed);
+
+    setError("");
+    try {
+      await createEvent({
+        applicationId: application._id,
+        kind,
+        startsAt,
+        timeZone,
+        location: isLink ? undefined : trimmed,
+        videoLink: isLink ? trimmed : undefined,
+      });
+      setPlace("");
+    } catch (error) {
+      console.error("Event error:", error);
+      setError("Could not schedule the event.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {events.length === 0 && (
+        <p className="text-sm opacity-70">No interviews or deadlines yet.</p>
+      )}
+      {events.length > 0 && (
+        <ul className="flex flex-col gap-2 border-l-2 border-base-content/20 ml-2 pl-4">
+          {events.map((event) => {
+            const Icon = EVENT_KIND_ICONS[event.kind];
+            const isPast = event.startsAt < now;
+
+            return (
+              <li
+                key={event._id}
+                className={`relative flex flex-col gap-1 p-2 rounded-md bg-base-200 ${
+                  isPast ? "opacity-60" : ""
+                }`}
+              >
+                {/* Dot on the timeline line */}
+                <span className="absolute -left-[1.4rem] top-3 w-3 h-3 rounded-full bg-primary" />
+                <div className="flex flex-row items-center gap-2">
+                  <span
+                    className={`badge badge-sm badge-soft ${EVENT_KIND_BADGES[event.kind]}`}
+                  >
+                    <Icon className="w-3 h-3" />
+                    {eventKindLabels[event.kind]}
+                  </span>
+                  <span className="text-sm font-semibold">
+                    {formatInTimeZone(event.startsAt, event.timeZone)}
+                  </span>
+                  {event.timeZone !== localTimeZone && (
+                    <span className="text-xs opacity-70">
+                      ({formatInTimeZone(event.startsAt, localTimeZone)} local)
+                    </span>
+                  )}
+                  <button
+                    className="btn btn-ghost btn-square btn-xs ml-auto"
+                    onClick={() => deleteEvent({ id: event._id })}
+                  >
+                    <Trash className="w-3 h-3" />
+                  </button>
+                </div>
+                {event.location && (
+                  <span className="text-xs opacity-70 flex items-center gap-1">
+                    <MapPin className="w-3 h-3" />
+                    {event.location}
+                  </span>
+                )}
+                {event.videoLink && (
+                  <a
+                    href={event.videoLink}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs link link-info flex items-center gap-1 truncate"
+                  >
+                    <Video className="w-3 h-3" />
+                    {event.videoLink}
+                  </a>
+                )}
+                <input
+                  type="text"
+                  className="input input-xs w-full"
+                  placeholder="Add a note"
+                  defaultValue={event.notes || ""}
+                  onBlur={(e) => {
+                    if (e.target.value !== (event.notes || "")) {
+                      updateEvent({ id: event._id, notes: e.target.value });
+                    }
+                  }}
+                />
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="flex flex-row gap-2">
+        <select
+          className="select select-sm w-40"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as EventKind)}
+        >
+          {(Object.keys(eventKindLabels) as EventKind[]).map((value) => (
+            <option key={value} value={value}>
+              {eventKindLabels[value]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="datetime-local"
+          className="input input-sm w-52"
+          value={start}
+          onChange={(e) => setStart(e.target.value)}
+        />
+        <select
+          className="select select-sm w-48"
+          value={timeZone}
+          onChange={(e) => setTimeZone(e.target.value)}
+        >
+          {timeZones.map((zone) => (
+            <option key={zone} value={zone}>
+              {zone}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          className="input input-sm flex-1"
+          placeholder="Location or video link"
+          value={place}
+          onChange={(e) => setPlace(e.target.value)}
+        />
+        <button
+          className="btn btn-primary btn-square btn-sm btn-soft"
+          onClick={handleAdd}
+          disabled={!start}
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+      {error && <p className="text-xs text-error">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { api } from "@/convex/_generated/api";
+import { useMutation } from "convex/react";
+import { Doc } from "@/convex/_generated/dataModel";
+import { useState } from "react";
+import { AlarmClock, Plus } from "lucide-react";
+import ReminderActions from "./ReminderActions";
+
+/**
+ * Formats a timestamp for a datetime-local input (local time)
+ */
+function toDateTimeInputValue(timestamp: number): string {
+  const date = new Date(
+    timestamp - new Date(timestamp).getTimezoneOffset() * 60_000,
+  );
+  return date.toISOString().slice(0, 16);
+}
+
+/**
+ * Returns 9 AM local time a week from today, the default follow-up time
+ */
+function getDefaultFollowUp(): number {
+  const date = new Date();
+  date.setDate(date.getDate() + 7);
+  date.setHours(9, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * FollowUpList component - lists and adds follow-up reminders of an application.
+ *
+ * Features:
+ * - Reminders ordered by due time, due ones highlighted
+ * - Snooze or complete each reminder
+ * - Add a reminder with a due time and an optional note
+ *
+ * @param application - The application whose reminders to show
+ * @returns {JSX.Element} Reminder list with add form
+ */
+export default function FollowUpList({
+  application,
+}: {
+  application: Doc<"applications">;
+}) {
+  const addReminder = useMutation(api.reminders.addReminder);
+  // Form state for a new reminder
+  const [at, setAt] = useState(() =>
+    toDateTimeInputValue(getDefaultFollowUp()),
+  );
+  const [note, setNote] = useState("");
+  const [error, setError] = useState("");
+
+  const reminders = application.reminders ?? [];
+
+  const handleAdd = async () => {
+    const timestamp = new Date(at).getTime();
+    if (isNaN(timestamp)) return;
+
+    setError("");
+    try {
+      await addReminder({ id: application._id, at: timestamp, note });
+      setNote("");
+    } catch (error) {
+      console.error("Reminder error:", error);
+      setError("Could not add the reminder.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {reminders.length === 0 && (
+        <p className="text-sm opacity-70">No follow-ups planned.</p>
+      )}
+      {reminders.map((reminder) => (
+        <div
+          key={reminder.id}
+          className={`flex flex-row items-center gap-2 p-2 rounded-md ${
+            reminder.isDue ? "bg-warning/20" : "bg-base-200"
+          }`}
+        >
+          <AlarmClock className="w-4 h-4 shrink-0" />
+          <span className="text-sm whitespace-nowrap">
+            {new Date(reminder.at).toLocaleString([], {
+              month: "short",
+              day: "numeric",
+              hour: "numeric",
+              minute: "2-digit",
+            })}
+          </span>
+          <span className="text-sm opacity-70 flex-1 truncate">
+            {reminder.note}
+          </span>
+          {reminder.isDue && (
+            <span className="badge badge-sm badge-warning">Due</span>
+          )}
+          <ReminderActions application={application} reminder={reminder} />
+        </div>
+      ))}
+      <div className="flex flex-row gap-2">
+        <input
+          type="datetime-local"
+          className="input input-sm"
+          value={at}
+          onChange={(e) => setAt(e.target.value)}
+        />
+        <input
+          type="text"
+          className="input input-sm flex-1"
+          placeholder="What to follow up on"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <button
+          className="btn btn-primary btn-square btn-sm btn-soft"
+          onClick={handleAdd}
+          disabled={!at}
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+      {error && <p className="text-xs text-error">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { api } from "@/convex/_generated/api";
+import { duplicateActionUnion, statusUnion } from "@/convex/unions";
+import { FunctionArgs, FunctionReturnType } from "convex/server";
+import { Infer } from "convex/values";
+import { Info, TriangleAlert } from "lucide-react";
+
+// Preview returned by the import actions when run with `dryRun`
+export type ImportPreviewData = Extract<
+  FunctionReturnType<typeof api.import.importFromText>,
+  { preview: unknown }
+>["preview"];
+
+export type ColumnMapping = ImportPreviewData["mapping"];
+
+// Normalized status chosen for a (lowercased) raw status
+export type StatusOverride = NonNullable<
+  FunctionArgs<typeof api.import.importFromText>["statusOverrides"]
+>[number];
+
+// Application fields that can be mapped to a column
+const fields: { key: keyof ColumnMapping; label: string }[] = [
+  { key: "company", label: "Company" },
+  { key: "title", label: "Title" },
+  { key: "status", label: "Status" },
+  { key: "link", label: "Link" },
+  { key: "date", label: "Date" },
+  { key: "notes", label: "Notes" },
+];
+
+// Available status options
+const statuses: Infer<typeof statusUnion>[] = [
+  "interested",
+  "applied",
+  "assessment",
+  "interviewed",
+  "offered",
+  "rejected",
+  "archived",
+];
+
+// Actions offered for rows that match an existing application
+const duplicateActions: {
+  value: Infer<typeof duplicateActionUnion>;
+  label: string;
+}[] = [
+  { value: "skip", label: "Skip" },
+  { value: "update", label: "Update status/notes" },
+  { value: "new", label: "Import as new" },
+];
+
+// Actions offered for rows repeating an earlier row of the same import
+const repeatActions = duplicateActions.filter(
+  (action) => action.value !== "update",
+);
+
+/**
+ * ImportPreview component - shows parsed import data before it is inserted.
+ *
+ * Features:
+ * - Notice when the data was recognized as another tracker's export
+ * - Editable column mapping (one select per application field)
+ * - Editable normalization of each distinct raw status value
+ * - Import-level and per-row warnings
+ * - Row preview with skipped rows dimmed
+ * - Per-row choice for rows matching an existing application or repeating
+ *   an earlier row
+ *
+ * @param preview - Dry-run result from the import action
+ * @param isImporting - Whether a preview refresh or import is in progress
+ * @param onMappingChange - Called with the edited column mapping
+ * @param onStatusChange - Called when a raw status is remapped
+ * @param rowActions - Chosen action per duplicate row number (default "skip")
+ * @param onRowActionChange - Called when a duplicate row's action changes
+ * @param onBack - Returns to the input step
+ * @param onImport - Commits the import with the current mapping
+ * @returns {JSX.Element} Import preview with mapping controls
+ */
+export default function ImportPreview({
+  preview,
+  isImporting,
+  onMappingChange,
+  onStatusChange,
+  rowActions,
+  onRowActionChange,
+  onBack,
+  onImport,
+}: {
+  preview: ImportPreviewData;
+  isImporting: boolean;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  onStatusChange: (raw: string, status: Infer<typeof statusUnion>) => void;
+  rowActions: Record<string, Infer<typeof duplicateActionUnion>>;
+  onRowActionChange: (
+    row: number,
+    action: Infer<typeof duplicateActionUnion>,
+  ) => void;
+  onBack: () => void;
+  onImport: () => void;
+}) {
+  // Rows that will be inserted or merged (duplicates and repeats default
+  // to "skip")
+  const importableCount = preview.rows.filter(
+    (row) =>
+      row.application !== null &&
+      ((!row.duplicate && row.repeatOf === undefined) ||
+        (rowActions[String(row.row)] ?? "skip") !== "skip"),
+  ).length;
+  const duplicateCount = preview.rows.filter((row) => row.duplicate).length;
+  const repeatCount = preview.rows.filter(
+    (row) => row.repeatOf !== undefined,
+  ).length;
+
+  // Update a single field of the mapping ("" clears it)
+  const handleMappingChange = (key: keyof ColumnMapping, value: string) => {
+    onMappingChange({
+      ...preview.mapping,
+      [key]: value === "" ? undefined : Number(value),
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {/* Detected tracker export */}
+      {preview.format && (
+        <div className="alert alert-info alert-soft text-sm">
+          <Info className="w-4 h-4" />
+          Detected a {preview.format.label} export. Columns and stages were
+          mapped automatically.
+        </div>
+      )}
+
+      {/* Import-level warnings */}
+      {preview.warnings.map((warning) => (
+        <div key={warning} className="alert alert-warning alert-soft text-sm">
+          <TriangleAlert className="w-4 h-4" />
+          {warning}
+        </div>
+      ))}
+
+      {/* Column mapping */}
+      <div className="flex flex-col gap-2">
+        <h4 className="font-semibold text-sm">Columns</h4>
+        <div className="grid grid-cols-3 gap-2">
+          {fields.map((field) => (
+            <label key={field.key} className="select select-sm w-full">
+              <span className="label">{field.label}</span>
+              <select
+                value={preview.mapping[field.key] ?? ""}
+                onChange={(e) => handleMappingChange(field.key, e.target.value)}
+                disabled={isImporting}
+              >
+                <option value="">None</option>
+                {preview.headers.map((header, index) => (
+                  <option key={index} value={index}>
+                    {header || `Column ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Status normalization */}
+      {preview.statuses.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <h4 className="font-semibold text-sm">Statuses</h4>
+          <div className="grid grid-cols-2 gap-2">
+            {preview.statuses.map((status) => (
+              <label key={status.raw} className="select select-sm w-full">
+                <span className="label truncate max-w-32">{status.raw}</span>
+                <select
+                  value={status.status}
+                  onChange={(e) =>
+                    onStatusChange(
+                      status.raw,
+                      e.target.value as Infer<typeof statusUnion>,
+                    )
+                  }
+                  disabled={isImporting}
+                >
+                  {statuses.map((option) => (
+                    <option key={option} value={option}>
+                      {option.charAt(0).toUpperCase() + option.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Duplicate summary */}
+      {duplicateCount > 0 && (
+        <div className="alert alert-info alert-soft text-sm">
+          {duplicateCount} row{duplicateCount === 1 ? "" : "s"} match existing
+          applications. Choose what to do with each below.
+        </div>
+      )}
+      {repeatCount > 0 && (
+        <div className="alert alert-info alert-soft text-sm">
+          {repeatCount} row{repeatCount === 1 ? "" : "s"} repeat an earlier row
+          and will be skipped unless imported as new.
+        </div>
+      )}
+
+      {/* Parsed rows */}
+      <div className="max-h-72 overflow-auto rounded-box bg-base-100">
+        <table className="table table-xs table-pin-rows">
+          <thead>
+            <tr>
+              <th>Row</th>
+              <th>Company</th>
+              <th>Title</th>
+              <th>Status</th>
+              <th>Duplicate</th>
+              <th>Warnings</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preview.rows.map((row) => (
+              <tr
+                key={row.row}
+                className={row.application === null ? "opacity-50" : ""}
+              >
+                <td>{row.row}</td>
+                <td>{row.application?.company}</td>
+                <td>{row.application?.title}</td>
+                <td>{row.application?.status}</td>
+                <td>
+                  {(row.duplicate || row.repeatOf !== undefined) && (
+                    <select
+                      className="select select-xs"
+                      value={rowActions[String(row.row)] ?? "skip"}
+                      onChange={(e) =>
+                        onRowActionChange(
+                          row.row,
+                          e.target.value as Infer<typeof duplicateActionUnion>,
+                        )
+                      }
+                      disabled={isImporting}
+                    >
+                      {(row.duplicate ? duplicateActions : repeatActions).map(
+                        (action) => (
+                          <option key={action.value} value={action.value}>
+                            {action.label}
+                          </option>
+                        ),
+                      )}
+                    </select>
+                  )}
+                  {row.repeatOf !== undefined && (
+                    <span className="ml-1 text-base-content/60">
+                      of row {row.repeatOf}
+                    </span>
+                  )}
+                </td>
+                <td className="text-warning">{row.warnings.join(" ")}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Actions */}
+      <div className="flex gap-2">
+        <button
+          className="btn btn-soft flex-1"
+          onClick={onBack}
+          disabled={isImporting}
+        >
+          Back
+        </button>
+        <button
+          className="btn btn-success btn-soft flex-[2]"
+          onClick={onImport}
+          disabled={isImporting || importableCount === 0}
+        >
+          {isImporting ? (
+            <span className="loading loading-spinner loading-sm"></span>
+          ) : (
+            <span>
+              Import {importableCount} of {preview.rows.length}
+            </span>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import {
+  AlarmClock,
+  Bell,
+  CheckCheck,
+  Clock,
+  Lock,
+  Sparkles,
+  X,
+} from "lucide-react";
+
+// Icon per notification kind
+const KIND_ICONS: Record<Doc<"notifications">["kind"], typeof Bell> = {
+  new_matches: Sparkles,
+  stale_application: Clock,
+  posting_closed: Lock,
+  follow_up: AlarmClock,
+};
+
+/**
+ * NotificationBell component - the user's in-app notifications.
+ *
+ * Features:
+ * - Bell with the number of unread notifications
+ * - Dropdown with the latest notifications, unread ones highlighted
+ * - Click a notification to mark it read, or dismiss it
+ * - Mark all as read
+ * - Click outside to close
+ *
+ * @returns {JSX.Element} Bell button with notifications dropdown
+ */
+export default function NotificationBell() {
+  const data = useQuery(api.notifications.getNotifications);
+  const markNotificationRead = useMutation(
+    api.notifications.markNotificationRead,
+  );
+  const markAllNotificationsRead = useMutation(
+    api.notifications.markAllNotificationsRead,
+  );
+  const dismissNotification = useMutation(
+    api.notifications.dismissNotification,
+  );
+  // Ref for dropdown container
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  // Dropdown open/closed state
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        dropdownRef.current &&
+        !dropdownRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const unreadCount = data?.unreadCount ?? 0;
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        className="btn btn-ghost btn-circle"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <div className="indicator">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="badge badge-xs badge-primary indicator-item">
+              {unreadCount}
+            </span>
+          )}
+        </div>
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 bg-base-100 rounded-box shadow-lg border border-base-300 z-50 w-[24em] p-2">
+          <div className="flex flex-row justify-between items-center px-2 pb-2">
+            <h3 className="font-semibold">Notifications</h3>
+            <button
+              className="btn btn-ghost btn-xs"
+              onClick={() => markAllNotificationsRead()}
+              disabled={unreadCount === 0}
+            >
+              <CheckCheck className="w-4 h-4" />
+              Mark all read
+            </button>
+          </div>
+          <div className="max-h-128 overflow-y-auto flex flex-col gap-1">
+            {data?.notifications.length === 0 && (
+              <p className="text-sm opacity-70 p-2">
+                You&apos;re all caught up.
+              </p>
+            )}
+            {data?.notifications.map((notification) => {
+              const Icon = KIND_ICONS[notification.kind];
+              const isUnread = notification.readAt === undefined;
+
+              return (
+                <div
+                  key={notification._id}
+                  className={`flex flex-row items-start gap-2 p-2 rounded-md cursor-pointer hover:bg-base-200 ${
+                    isUnread ? "bg-primary/10" : ""
+                  }`}
+                  onClick={() => {
+                    if (isUnread) {
+                      markNotificationRead({ id: notification._id });
+                    }
+                  }}
+                >
+                  <Icon className="w-4 h-4 mt-0.5 shrink-0" />
+                  <div className="flex flex-col flex-1 min-w-0">
+                    <span
+                      className={`text-sm ${isUnread ? "font-semibold" : ""}`}
+                    >
+                      {notification.title}
+                    </span>
+                    {notification.body && (
+                      <span className="text-xs opacity-70 truncate">
+                        {notification.body}
+                      </span>
+                    )}
+                    <span className="text-xs opacity-50">
+                      {new Date(notification.createdAt).toLocaleString([], {
+                        month: "short",
+                        day: "numeric",
+                        hour: "numeric",
+                        minute: "2-digit",
+                      })}
+                    </span>
+                  </div>
+                  <button
+                    className="btn btn-ghost btn-square btn-xs"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      dismissNotification({ id: notification._id });
+                    }}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
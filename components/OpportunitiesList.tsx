@@ -1,25 +1,113 @@
 import { api } from "@/convex/_generated/api";
-import { Doc } from "@/convex/_generated/dataModel";
+import { Doc, Id } from "@/convex/_generated/dataModel";
 import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
 import React, { useCallback, useRef, useEffect, memo, useState } from "react";
 import { useVirtualizer } from "@tanstack/react-virtual";
-import { PinIcon, Plus, Search, Github, Check } from "lucide-react";
+import {
+  PinIcon,
+  Plus,
+  Search,
+  Github,
+  Check,
+  Lock,
+  History,
+  Flame,
+  GraduationCap,
+  BookmarkPlus,
+  X,
+} from "lucide-react";
 import Link from "next/link";
 import { SkeletonLoader } from "./SkeletonLoader";
+import {
+  degreeLevelUnion,
+  opportunityFilters,
+  sponsorshipUnion,
+  workModeUnion,
+} from "@/convex/unions";
+import { Infer } from "convex/values";
 
-// GitHub repositories that contain internship opportunity data
-const repos: { owner: string; repo: string; path: string }[] = [
-  {
-    owner: "vanshb03",
-    repo: "Summer2026-Internships",
-    path: "README.md",
-  },
-  {
-    owner: "SimplifyJobs",
-    repo: "Summer2026-Internships",
-    path: "README.md",
-  },
-];
+/**
+ * Opportunity filter state, passed to `getOpportunities`
+ */
+type FilterOptions = {
+  search: string;
+  company: Id<"companies">[];
+  source: string;
+  location: string;
+  workMode: Infer<typeof workModeUnion> | undefined;
+  createdFrom: number | undefined;
+  isOpen: boolean | undefined;
+  isStale: boolean | undefined;
+  term: string;
+  sponsorship: Infer<typeof sponsorshipUnion> | undefined;
+  isFaang: boolean | undefined;
+  degreeLevel: Infer<typeof degreeLevelUnion> | undefined;
+};
+
+// Display labels for the posting detail facets
+const SPONSORSHIP_LABELS: Record<Infer<typeof sponsorshipUnion>, string> = {
+  unrestricted: "Sponsorship possible",
+  no_sponsorship: "No sponsorship",
+  us_citizens_only: "U.S. citizens only",
+};
+const DEGREE_LEVEL_LABELS: Record<Infer<typeof degreeLevelUnion>, string> = {
+  bachelors: "Bachelor's",
+  masters: "Master's",
+  phd: "PhD",
+};
+const WORK_MODE_LABELS: Record<Infer<typeof workModeUnion>, string> = {
+  remote: "Remote",
+  hybrid: "Hybrid",
+  onsite: "On-site",
+};
+
+// Options of the "posted within" filter, in days
+const POSTED_WITHIN_DAYS = [1, 3, 7, 14, 30];
+
+/**
+ * Converts the filter state into filters to save, leaving out empty ones
+ * and the "posted within" date, which is relative to when it was selected
+ */
+function toSavedFilters(
+  filterOptions: FilterOptions,
+): Infer<typeof opportunityFilters> {
+  return {
+    search: filterOptions.search || undefined,
+    company:
+      filterOptions.company.length > 0 ? filterOptions.company : undefined,
+    source: filterOptions.source || undefined,
+    location: filterOptions.location || undefined,
+    workMode: filterOptions.workMode,
+    isOpen: filterOptions.isOpen,
+    isStale: filterOptions.isStale,
+    term: filterOptions.term || undefined,
+    sponsorship: filterOptions.sponsorship,
+    isFaang: filterOptions.isFaang,
+    degreeLevel: filterOptions.degreeLevel,
+  };
+}
+
+/**
+ * Converts saved filters back into the filter state
+ */
+function fromSavedFilters(
+  filters: Infer<typeof opportunityFilters>,
+): FilterOptions {
+  return {
+    search: filters.search ?? "",
+    company: filters.company ?? [],
+    source: filters.source ?? "",
+    location: filters.location ?? "",
+    workMode: filters.workMode,
+    createdFrom: undefined,
+    isOpen: filters.isOpen,
+    isStale: filters.isStale,
+    term: filters.term ?? "",
+    sponsorship: filters.sponsorship,
+    isFaang: filters.isFaang,
+    degreeLevel: filters.degreeLevel,
+  };
+}
 
 /**
  * OpportunitiesList component - displays and manages internship opportunities from GitHub repositories.
@@ -27,9 +115,13 @@ const repos: { owner: string; repo: string; path: string }[] = [
  * Features:
  * - Paginated data loading for performance
  * - Virtualized list rendering for large datasets
- * - Real-time filtering by company and search terms
+ * - Real-time filtering by any combination of company, source, location,
+ *   work mode, posting date and search terms
+ * - Term, sponsorship, degree level and FAANG+ facets
+ * - Closed and stale (older) postings hidden by default
  * - Auto-scroll loading when reaching bottom
  * - One-click application creation from opportunities
+ * - Company names link to the company page
  * - GitHub source links for each opportunity
  *
  * @returns {JSX.Element} Complete opportunities management interface
@@ -39,11 +131,22 @@ export default function OpportunitiesList() {
   const suggestedApplications = useQuery(
     api.applications.getSuggestedApplications,
   );
+  // Registered opportunity sources (for source links and filtering)
+  const sources = useQuery(api.sources.getSources);
   // Filter state for search and company filtering
-  const [filterOptions, setFilterOptions] = useState({
+  const [filterOptions, setFilterOptions] = useState<FilterOptions>({
     search: "",
-    company: [] as string[],
+    company: [],
     source: "",
+    location: "",
+    workMode: undefined,
+    createdFrom: undefined,
+    isOpen: true,
+    isStale: false,
+    term: "",
+    sponsorship: undefined,
+    isFaang: undefined,
+    degreeLevel: undefined,
   });
   // Ref for the scrollable container
   const parentRef = useRef<HTMLDivElement>(null);
@@ -94,6 +197,7 @@ export default function OpportunitiesList() {
       <OpportunitiesFilter
         filterOptions={filterOptions}
         setFilterOptions={setFilterOptions}
+        sources={sources || []}
       />
       <div className="flex flex-col gap-2 w-full">
         <h2 className="text-lg font-semibold">Opportunities</h2>
@@ -110,7 +214,11 @@ export default function OpportunitiesList() {
             <SkeletonLoader count={20} height={60} />
           ) : results.length === 0 ? (
             // Show message when no results found
-            <div className="p-4 text-center">No results found</div>
+            status === "Exhausted" ? (
+              <div className="p-4 text-center">No results found</div>
+            ) : (
+              <SkeletonLoader count={20} height={60} />
+            )
           ) : (
             // Virtualized list rendering
             <div
@@ -144,6 +252,9 @@ export default function OpportunitiesList() {
                         suggestedApplications={
                           (suggestedApplications || []) as string[]
                         }
+                        source={sources?.find(
+                          (source) => source.key === opportunity.source,
+                        )}
                       />
                     </div>
                   </div>
@@ -166,17 +277,23 @@ export default function OpportunitiesList() {
  * - GitHub source link for each opportunity
  * - Location display with tooltip for long names
  * - Visual feedback for already added applications
+ * - Closed badge for postings closed upstream
+ * - Older badge for postings past their source's freshness window
+ * - FAANG+, sponsorship restriction and degree level badges
  *
  * @param opportunity - The opportunity data to display
  * @param suggestedApplications - Array of opportunity IDs that have been added as applications
+ * @param source - Registered source the opportunity was scraped from (if any)
  * @returns {JSX.Element} Individual opportunity list item
  */
 function SuggestionListItem({
   opportunity,
   suggestedApplications,
+  source,
 }: {
   opportunity: Doc<"opportunities">;
   suggestedApplications: string[];
+  source?: Doc<"sources">;
 }) {
   // Mutation for adding opportunity as application
   const addApplication = useMutation(
@@ -206,8 +323,55 @@ function SuggestionListItem({
       >
         {/* Company, title, and location information */}
         <div className="flex items-center gap-2 flex-1 my-1 cursor-pointer">
-          <div className="font-semibold">{opportunity.company}</div>
+          <Link
+            href={`/dashboard/company/${encodeURIComponent(opportunity.company)}`}
+            className="font-semibold hover:underline"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {opportunity.company}
+          </Link>
           <div className="text-sm opacity-70">{opportunity.title}</div>
+          {/* Closed badge for postings no longer accepting applications */}
+          {opportunity.isOpen === false && (
+            <span className="badge badge-sm badge-soft badge-error">
+              <Lock className="w-3 h-3" />
+              Closed
+            </span>
+          )}
+          {/* Older badge for postings past the source's freshness window */}
+          {opportunity.isStale && (
+            <div
+              className="tooltip tooltip-top"
+              data-tip={`Posted on ${new Date(
+                opportunity.createdAt,
+              ).toLocaleDateString()}`}
+            >
+              <span className="badge badge-sm badge-soft badge-warning">
+                <History className="w-3 h-3" />
+                Older
+              </span>
+            </div>
+          )}
+          {/* Posting detail badges */}
+          {opportunity.isFaang && (
+            <span className="badge badge-sm badge-soft badge-accent">
+              <Flame className="w-3 h-3" />
+              FAANG+
+            </span>
+          )}
+          {opportunity.sponsorship &&
+            opportunity.sponsorship !== "unrestricted" && (
+              <span className="badge badge-sm badge-soft">
+                {SPONSORSHIP_LABELS[opportunity.sponsorship]}
+              </span>
+            )}
+          {opportunity.degreeLevel &&
+            opportunity.degreeLevel !== "bachelors" && (
+              <span className="badge badge-sm badge-soft">
+                <GraduationCap className="w-3 h-3" />
+                {DEGREE_LEVEL_LABELS[opportunity.degreeLevel]}
+              </span>
+            )}
           {/* Location display with tooltip for long names */}
           {opportunity.location && (
             <div className="text-sm opacity-70">
@@ -227,17 +391,16 @@ function SuggestionListItem({
         {/* Action buttons */}
         <div className="flex items-center gap-2">
           {/* GitHub source link if available */}
-          {opportunity.source &&
-            repos.find((repo) => repo.owner === opportunity.source) && (
-              <Link
-                href={`https://github.com/${opportunity.source}/${repos.find((repo) => repo.owner === opportunity.source)?.repo}/`}
-                target="_blank"
-                className="text-primary btn btn-square btn-sm"
-                onClick={(e) => e.stopPropagation()}
-              >
-                <Github className="w-4 h-4" />
-              </Link>
-            )}
+          {source && (
+            <Link
+              href={`https://github.com/${source.owner}/${source.repo}/`}
+              target="_blank"
+              className="text-primary btn btn-square btn-sm"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <Github className="w-4 h-4" />
+            </Link>
+          )}
           {/* Add to applications button */}
           <button
             className={`btn btn-square btn-sm ${suggestedApplications.includes(opportunity._id) ? "btn-disabled" : ""}`}
@@ -262,38 +425,45 @@ function SuggestionListItem({
  * OpportunitiesFilter component - provides filtering functionality for opportunities.
  *
  * Features:
- * - Company multi-select dropdown with search
+ * - Company multi-select dropdown with search and opportunity counts
+ * - Source select from the source registry
+ * - Toggles to include closed and older (stale) postings
+ * - Term, sponsorship and degree level selects with posting counts
+ * - FAANG+ only toggle
+ * - Location and work mode (remote/hybrid/on-site) selects with posting
+ *   counts
+ * - "Posted within" date range
  * - Title search functionality
+ * - Saved searches with new-match counts
  * - Click outside to close dropdown
  * - Real-time filtering
  *
  * @param filterOptions - Current filter state
  * @param setFilterOptions - Function to update filter state
+ * @param sources - Registered opportunity sources
  * @returns {JSX.Element} Filter controls component
  */
 const OpportunitiesFilter = memo(function OpportunitiesFilter({
   filterOptions,
   setFilterOptions,
+  sources,
 }: {
-  filterOptions: {
-    search: string;
-    company: string[];
-    source: string;
-  };
-  setFilterOptions: (filterOptions: {
-    search: string;
-    company: string[];
-    source: string;
-  }) => void;
+  filterOptions: FilterOptions;
+  setFilterOptions: (filterOptions: FilterOptions) => void;
+  sources: Doc<"sources">[];
 }) {
   // Get list of companies for filtering
-  const companies = useQuery(api.opportunities.getCompanies);
+  const companies = useQuery(api.companies.getCompanies);
+  // Counts for the posting detail facets
+  const facets = useQuery(api.opportunities.getOpportunityFacets);
   // Ref for dropdown container
   const dropdownRef = useRef<HTMLDivElement>(null);
   // Dropdown open/closed state
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   // Company search query for filtering dropdown options
   const [companySearch, setCompanySearch] = useState("");
+  // Selected "posted within" option in days ("" for any time)
+  const [postedWithin, setPostedWithin] = useState("");
 
   // Handle search input changes
   const handleSearchChange = useCallback(
@@ -303,9 +473,18 @@ const OpportunitiesFilter = memo(function OpportunitiesFilter({
     [setFilterOptions, filterOptions],
   );
 
+  // Apply a saved search, replacing every filter
+  const handleApplySavedSearch = useCallback(
+    (filters: FilterOptions) => {
+      setPostedWithin("");
+      setFilterOptions(filters);
+    },
+    [setFilterOptions],
+  );
+
   // Handle company selection/deselection
   const handleCompanySelect = useCallback(
-    (company: string) => {
+    (company: Id<"companies">) => {
       if (filterOptions.company.includes(company)) {
         setFilterOptions({
           ...filterOptions,
@@ -342,8 +521,10 @@ const OpportunitiesFilter = memo(function OpportunitiesFilter({
   }, [isDropdownOpen]);
 
   // Filter companies based on search query
-  const filteredCompanies = companies?.filter((company: string) =>
-    company.toLowerCase().includes(companySearch.toLowerCase()),
+  const filteredCompanies = companies?.filter(
+    (company) =>
+      company.opportunityCount > 0 &&
+      company.name.toLowerCase().includes(companySearch.toLowerCase()),
   );
 
   return (
@@ -372,19 +553,184 @@ const OpportunitiesFilter = memo(function OpportunitiesFilter({
                 />
               </label>
               <div className="max-h-128 overflow-y-auto p-2 gap-1 flex flex-col">
-                {filteredCompanies?.map((company: string) => (
+                {filteredCompanies?.map((company) => (
                   <button
-                    key={company}
-                    className={`w-full flex items-center gap-2 text-wrap btn btn-soft btn-sm justify-start ${filterOptions.company.includes(company) ? "btn-primary" : ""}`}
-                    onClick={() => handleCompanySelect(company)}
+                    key={company._id}
+                    className={`w-full flex items-center gap-2 text-wrap btn btn-soft btn-sm justify-start ${filterOptions.company.includes(company._id) ? "btn-primary" : ""}`}
+                    onClick={() => handleCompanySelect(company._id)}
                   >
-                    {company}
+                    {company.name} ({company.opportunityCount})
                   </button>
                 ))}
               </div>
             </div>
           )}
         </div>
+        <select
+          className="select w-full mt-2"
+          value={filterOptions.source}
+          onChange={(e) =>
+            setFilterOptions({ ...filterOptions, source: e.target.value })
+          }
+        >
+          <option value="">All sources</option>
+          {sources.map((source) => (
+            <option key={source._id} value={source.key}>
+              {source.label}
+            </option>
+          ))}
+        </select>
+        <label className="label text-sm mt-2 w-full">
+          <input
+            type="checkbox"
+            className="toggle toggle-sm"
+            checked={filterOptions.isOpen === undefined}
+            onChange={(e) =>
+              setFilterOptions({
+                ...filterOptions,
+                isOpen: e.target.checked ? undefined : true,
+              })
+            }
+          />
+          Show closed postings
+        </label>
+        <label className="label text-sm mt-2 w-full">
+          <input
+            type="checkbox"
+            className="toggle toggle-sm"
+            checked={filterOptions.isStale === undefined}
+            onChange={(e) =>
+              setFilterOptions({
+                ...filterOptions,
+                isStale: e.target.checked ? undefined : false,
+              })
+            }
+          />
+          Show older postings
+        </label>
+        <select
+          className="select w-full mt-2"
+          value={filterOptions.term}
+          onChange={(e) =>
+            setFilterOptions({ ...filterOptions, term: e.target.value })
+          }
+        >
+          <option value="">All terms</option>
+          {facets?.terms.map(({ value, count }) => (
+            <option key={value} value={value}>
+              {value} ({count})
+            </option>
+          ))}
+        </select>
+        <select
+          className="select w-full mt-2"
+          value={filterOptions.sponsorship ?? ""}
+          onChange={(e) =>
+            setFilterOptions({
+              ...filterOptions,
+              sponsorship: (e.target.value || undefined) as
+                | Infer<typeof sponsorshipUnion>
+                | undefined,
+            })
+          }
+        >
+          <option value="">Any sponsorship</option>
+          {facets?.sponsorship.map(({ value, count }) => (
+            <option key={value} value={value}>
+              {SPONSORSHIP_LABELS[value]} ({count})
+            </option>
+          ))}
+        </select>
+        <select
+          className="select w-full mt-2"
+          value={filterOptions.degreeLevel ?? ""}
+          onChange={(e) =>
+            setFilterOptions({
+              ...filterOptions,
+              degreeLevel: (e.target.value || undefined) as
+                | Infer<typeof degreeLevelUnion>
+                | undefined,
+            })
+          }
+        >
+          <option value="">Any degree</option>
+          {facets?.degreeLevels.map(({ value, count }) => (
+            <option key={value} value={value}>
+              {DEGREE_LEVEL_LABELS[value]} ({count})
+            </option>
+          ))}
+        </select>
+        <label className="label text-sm mt-2 w-full">
+          <input
+            type="checkbox"
+            className="toggle toggle-sm"
+            checked={filterOptions.isFaang === true}
+            onChange={(e) =>
+              setFilterOptions({
+                ...filterOptions,
+                isFaang: e.target.checked ? true : undefined,
+              })
+            }
+          />
+          FAANG+ only{facets ? ` (${facets.faang})` : ""}
+        </label>
+        <select
+          className="select w-full mt-2"
+          value={filterOptions.location}
+          onChange={(e) =>
+            setFilterOptions({ ...filterOptions, location: e.target.value })
+          }
+        >
+          <option value="">All locations</option>
+          {facets?.locations.map(({ value, count }) => (
+            <option key={value} value={value}>
+              {value} ({count})
+            </option>
+          ))}
+        </select>
+        <select
+          className="select w-full mt-2"
+          value={filterOptions.workMode ?? ""}
+          onChange={(e) =>
+            setFilterOptions({
+              ...filterOptions,
+              workMode: (e.target.value || undefined) as
+                | Infer<typeof workModeUnion>
+                | undefined,
+            })
+          }
+        >
+          <option value="">Any work mode</option>
+          {facets?.workModes.map(({ value, count }) => (
+            <option key={value} value={value}>
+              {WORK_MODE_LABELS[value]} ({count})
+            </option>
+          ))}
+        </select>
+        <select
+          className="select w-full mt-2"
+          value={postedWithin}
+          onChange={(e) => {
+            setPostedWithin(e.target.value);
+            // The start date is fixed when selected so the query args
+            // don't change on every render
+            setFilterOptions({
+              ...filterOptions,
+              createdFrom: e.target.value
+                ? Date.now() - parseInt(e.target.value) * 24 * 60 * 60 * 1000
+                : undefined,
+            });
+          }}
+        >
+          <option value="">Posted any time</option>
+          {POSTED_WITHIN_DAYS.map((days) => (
+            <option key={days} value={days}>
+              {days === 1
+                ? "Posted in the last day"
+                : `Posted in the last ${days} days`}
+            </option>
+          ))}
+        </select>
         <label htmlFor="search" className="input input-bordered flex-1 mt-2">
           <Search className="w-4 h-4" />
           <input
@@ -395,7 +741,102 @@ const OpportunitiesFilter = memo(function OpportunitiesFilter({
             onChange={handleSearchChange}
           />
         </label>
+        <SavedSearches
+          filterOptions={filterOptions}
+          onApply={handleApplySavedSearch}
+        />
       </div>
     </div>
   );
 });
+
+/**
+ * SavedSearches component - named filter combinations of the user.
+ *
+ * Features:
+ * - Save the current filters under a name
+ * - One click to re-apply a saved search
+ * - Count of new postings matching each search since it was last applied
+ * - Delete saved searches
+ *
+ * @param filterOptions - Current filter state
+ * @param onApply - Function to replace the filter state
+ * @returns {JSX.Element} Saved searches section
+ */
+function SavedSearches({
+  filterOptions,
+  onApply,
+}: {
+  filterOptions: FilterOptions;
+  onApply: (filterOptions: FilterOptions) => void;
+}) {
+  const savedSearches = useQuery(api.savedSearches.getSavedSearches);
+  const createSavedSearch = useMutation(api.savedSearches.createSavedSearch);
+  const markSavedSearchSeen = useMutation(
+    api.savedSearches.markSavedSearchSeen,
+  );
+  const deleteSavedSearch = useMutation(api.savedSearches.deleteSavedSearch);
+  // Name for the search being saved
+  const [name, setName] = useState("");
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await createSavedSearch({
+        name,
+        filters: toSavedFilters(filterOptions),
+      });
+      setName("");
+    } catch (error) {
+      console.error("Saved search error:", error);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1 mt-4">
+      <h3 className="text-sm font-semibold text-base-content/70 uppercase tracking-wide">
+        Saved searches
+      </h3>
+      {savedSearches?.map((savedSearch) => (
+        <div key={savedSearch._id} className="flex items-center gap-1">
+          <button
+            className="btn btn-soft btn-sm flex-1 justify-start"
+            onClick={() => {
+              onApply(fromSavedFilters(savedSearch.filters));
+              markSavedSearchSeen({ id: savedSearch._id });
+            }}
+          >
+            <span className="truncate">{savedSearch.name}</span>
+            {savedSearch.newMatchCount > 0 && (
+              <span className="badge badge-sm badge-primary">
+                {savedSearch.newMatchCount} new
+              </span>
+            )}
+          </button>
+          <button
+            className="btn btn-square btn-ghost btn-sm"
+            onClick={() => deleteSavedSearch({ id: savedSearch._id })}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <form onSubmit={handleSave} className="flex items-center gap-1">
+        <input
+          type="text"
+          className="input input-sm flex-1"
+          placeholder="Name this search"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <button
+          type="submit"
+          className="btn btn-square btn-sm btn-primary"
+          disabled={!name.trim()}
+        >
+          <BookmarkPlus className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
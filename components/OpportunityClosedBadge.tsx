@@ -0,0 +1,34 @@
+import { Doc } from "@/convex/_generated/dataModel";
+import { Lock } from "lucide-react";
+
+/**
+ * OpportunityClosedBadge component - flags applications whose posting closed.
+ *
+ * Features:
+ * - Only shows when the linked opportunity was marked closed upstream
+ * - Tooltip with the date the posting closed
+ *
+ * @param application - The application to check
+ * @returns {JSX.Element} Closed badge or null
+ */
+export default function OpportunityClosedBadge({
+  application,
+}: {
+  application: Doc<"applications">;
+}) {
+  if (application.opportunityClosedAt === undefined) return null;
+
+  return (
+    <div
+      className="tooltip tooltip-top"
+      data-tip={`Posting closed on ${new Date(
+        application.opportunityClosedAt,
+      ).toLocaleDateString()}`}
+    >
+      <span className="badge badge-sm badge-soft badge-error">
+        <Lock className="w-3 h-3" />
+        Closed
+      </span>
+    </div>
+  );
+}
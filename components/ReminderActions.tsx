@@ -0,0 +1,83 @@
+import { api } from "@/convex/_generated/api";
+import { useMutation } from "convex/react";
+import { Doc } from "@/convex/_generated/dataModel";
+import { Reminder } from "@/convex/reminders";
+import { AlarmClockOff, Check } from "lucide-react";
+
+// Snooze choices, in days from today
+const SNOOZE_OPTIONS = [
+  { label: "Tomorrow", days: 1 },
+  { label: "In 3 days", days: 3 },
+  { label: "Next week", days: 7 },
+];
+
+/**
+ * Returns 9 AM local time a number of days from today
+ */
+function getSnoozeTime(days: number): number {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  date.setHours(9, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * ReminderActions component - snoozes or completes a follow-up reminder.
+ *
+ * Features:
+ * - Snooze dropdown (tomorrow, in 3 days, next week at 9 AM)
+ * - Complete button that removes the reminder
+ *
+ * @param application - The application the reminder belongs to
+ * @param reminder - The reminder to act on
+ * @returns {JSX.Element} Snooze dropdown and complete button
+ */
+export default function ReminderActions({
+  application,
+  reminder,
+}: {
+  application: Doc<"applications">;
+  reminder: Reminder;
+}) {
+  const snoozeReminder = useMutation(api.reminders.snoozeReminder);
+  const completeReminder = useMutation(api.reminders.completeReminder);
+
+  const handleSnooze = (days: number) => {
+    snoozeReminder({
+      id: application._id,
+      reminderId: reminder.id,
+      until: getSnoozeTime(days),
+    });
+    // Close the dropdown, which stays open while focused
+    (document.activeElement as HTMLElement | null)?.blur();
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <div className="dropdown dropdown-end">
+        <div tabIndex={0} role="button" className="btn btn-ghost btn-xs">
+          <AlarmClockOff className="w-3 h-3" />
+          Snooze
+        </div>
+        <ul
+          tabIndex={0}
+          className="dropdown-content menu bg-base-100 rounded-box shadow-lg border border-base-300 z-50 w-32 p-1"
+        >
+          {SNOOZE_OPTIONS.map(({ label, days }) => (
+            <li key={days}>
+              <button onClick={() => handleSnooze(days)}>{label}</button>
+            </li>
+          ))}
+        </ul>
+      </div>
+      <button
+        className="btn btn-ghost btn-square btn-xs"
+        onClick={() =>
+          completeReminder({ id: application._id, reminderId: reminder.id })
+        }
+      >
+        <Check className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
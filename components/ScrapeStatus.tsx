@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { RefreshCw } from "lucide-react";
+
+/**
+ * ScrapeStatus component - admin readout of the opportunity scraper.
+ *
+ * Features:
+ * - Only shows for admins (see `ADMIN_EMAILS`)
+ * - Last successful scrape per source, flagged as stale when a source
+ *   hasn't been scraped successfully for twice its interval
+ * - Tooltip with the error of a failed last run
+ * - Button to scrape all sources right away
+ *
+ * @returns {JSX.Element} Admin sidebar section or null
+ */
+export default function ScrapeStatus() {
+  const status = useQuery(api.scrapeRuns.getScrapeStatus);
+  const scrapeNow = useMutation(api.scraper.scrapeNow);
+  const [isScheduling, setIsScheduling] = useState(false);
+
+  if (!status) return null;
+
+  const handleScrapeNow = async () => {
+    setIsScheduling(true);
+    try {
+      await scrapeNow();
+    } catch (error) {
+      console.error("Scrape error:", error);
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="divider my-4"></div>
+      <div className="flex flex-col gap-2">
+        <h3 className="text-sm font-semibold text-base-content/70 uppercase tracking-wide">
+          Scraper
+        </h3>
+        {status.map((source) => {
+          const isStale =
+            source.lastSuccessAt === undefined ||
+            Date.now() - source.lastSuccessAt >
+              2 * source.intervalMinutes * 60 * 1000;
+          const lastError =
+            source.lastRun?.status === "error" ? source.lastRun.error : null;
+
+          return (
+            <div
+              key={source.source}
+              className="flex flex-row justify-between items-center gap-2 px-3 text-xs"
+            >
+              <span className="truncate">{source.label}</span>
+              <div
+                className={lastError ? "tooltip tooltip-left" : ""}
+                data-tip={lastError ?? undefined}
+              >
+                <span
+                  className={`badge badge-sm badge-soft whitespace-nowrap ${
+                    isStale ? "badge-error" : "badge-success"
+                  }`}
+                >
+                  {source.lastSuccessAt === undefined
+                    ? "Never"
+                    : new Date(source.lastSuccessAt).toLocaleString([], {
+                        month: "short",
+                        day: "numeric",
+                        hour: "numeric",
+                        minute: "2-digit",
+                      })}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+        <li>
+          <button onClick={handleScrapeNow} disabled={isScheduling}>
+            {isScheduling ? (
+              <span className="loading loading-spinner loading-xs"></span>
+            ) : (
+              <RefreshCw className="w-4 h-4" />
+            )}
+            Scrape now
+          </button>
+        </li>
+      </div>
+    </>
+  );
+}
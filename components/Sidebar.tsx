@@ -6,13 +6,28 @@ import {
   X,
   House,
   Github,
+  FileSpreadsheet,
+  FileJson,
+  CalendarDays,
+  Link as LinkIcon,
+  Mail,
 } from "lucide-react";
 import Link from "next/link";
 import { useAuthActions } from "@convex-dev/auth/react";
-import { useConvexAuth, useAction } from "convex/react";
+import { useConvexAuth, useAction, useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { duplicateActionUnion } from "@/convex/unions";
+import { Infer } from "convex/values";
+import ScrapeStatus from "./ScrapeStatus";
+import ImportPreview, {
+  ColumnMapping,
+  ImportPreviewData,
+  StatusOverride,
+} from "./ImportPreview";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
+import downloadFile from "@/utils/download";
 
 /**
  * Sidebar component - provides navigation, import functionality, and account management.
@@ -20,7 +35,9 @@ import { useRouter } from "next/navigation";
  * Features:
  * - Drawer-style sidebar with toggle button
  * - Navigation links (Home, GitHub)
- * - Import functionality (clipboard and file)
+ * - Import functionality (clipboard and file) with a preview step
+ * - Export to CSV, JSON or iCalendar and a subscribable calendar feed
+ * - Scraper status for admins
  * - Ad-free subscription modal
  * - Pro feature promotion
  * - Account management and sign out
@@ -33,28 +50,158 @@ export default function Sidebar() {
   const [importText, setImportText] = useState("");
   const [importFile, setImportFile] = useState<File | null>(null);
   const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState("");
+  // State for the import preview step
+  const [preview, setPreview] = useState<ImportPreviewData | null>(null);
+  const [statusOverrides, setStatusOverrides] = useState<StatusOverride[]>([]);
+  const [duplicateActions, setDuplicateActions] = useState<
+    Record<string, Infer<typeof duplicateActionUnion>>
+  >({});
+  // Storage ID of the uploaded file (reused between preview and import)
+  const [storageId, setStorageId] = useState<Id<"_storage"> | null>(null);
   // State for payment button loading
   // Get current user data
   // Action for importing text data
   const importFromText = useAction(api.import.importFromText);
+  // Mutation and action for uploading and importing files
+  const generateUploadUrl = useMutation(api.import.generateUploadUrl);
+  const recordUpload = useMutation(api.uploads.recordUpload);
+  const discardImportUpload = useMutation(api.uploads.discardImportUpload);
+  const importFromFile = useAction(api.import.importFromFile);
 
-  // Handle file import (currently not implemented)
-  const handleFileImport = async () => {
-    if (!importFile) return;
+  // Delete the previewed upload, if any, once it won't be imported
+  const discardUpload = () => {
+    if (storageId) {
+      discardImportUpload({ storageId }).catch((error) =>
+        console.error("Discard upload error:", error),
+      );
+    }
+    setStorageId(null);
+  };
+
+  // Reset all import state (when a modal closes or an import finishes)
+  const resetImport = () => {
+    setImportText("");
+    setImportFile(null);
+    setImportError("");
+    setPreview(null);
+    setStatusOverrides([]);
+    setDuplicateActions({});
+    discardUpload();
+  };
+
+  // Run the text or file import action with the given options
+  const runImport = async (
+    source: "text" | "file",
+    options: {
+      dryRun?: boolean;
+      mapping?: ColumnMapping;
+      statusOverrides?: StatusOverride[];
+      duplicateActions?: Record<string, Infer<typeof duplicateActionUnion>>;
+    },
+  ) => {
+    if (source === "text") {
+      return await importFromText({ data: importText, ...options });
+    }
+
+    // Upload the file to Convex storage once, then parse it server-side
+    let uploadedId = storageId;
+    if (!uploadedId) {
+      const uploadUrl = await generateUploadUrl();
+      const response = await fetch(uploadUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": importFile!.type || "application/octet-stream",
+        },
+        body: importFile,
+      });
+      uploadedId = (await response.json()).storageId as Id<"_storage">;
+      await recordUpload({ storageId: uploadedId });
+      setStorageId(uploadedId);
+    }
+
+    return await importFromFile({
+      storageId: uploadedId,
+      fileName: importFile!.name,
+      ...options,
+    });
   };
 
-  // Handle text import from clipboard
-  const handleTextImport = async (modalId: string) => {
-    if (!importText) return;
+  // Handle preview (dry run) or final import for either modal
+  const handleImport = async (
+    source: "text" | "file",
+    modalId: string,
+    options: {
+      dryRun?: boolean;
+      mapping?: ColumnMapping;
+      statusOverrides?: StatusOverride[];
+      duplicateActions?: Record<string, Infer<typeof duplicateActionUnion>>;
+    },
+  ) => {
+    if (source === "text" ? !importText : !importFile) return;
     setIsImporting(true);
-    const result = await importFromText({ data: importText });
-    if (result.success) {
+    setImportError("");
+    try {
+      const result = await runImport(source, options);
+      if (!result.success) {
+        setImportError(result.error ?? "Import failed");
+      } else if (result.preview) {
+        setPreview(result.preview);
+      } else {
+        (document.getElementById(modalId) as HTMLDialogElement)?.close();
+      }
+    } catch {
+      setImportError("Import failed. Please try again.");
+    } finally {
       setIsImporting(false);
-      setImportText("");
-      (document.getElementById(modalId) as HTMLDialogElement)?.close();
     }
   };
 
+  // Render the preview step for the given modal
+  const renderPreview = (source: "text" | "file", modalId: string) =>
+    preview && (
+      <ImportPreview
+        preview={preview}
+        isImporting={isImporting}
+        onMappingChange={(mapping) =>
+          handleImport(source, modalId, {
+            dryRun: true,
+            mapping,
+            statusOverrides,
+          })
+        }
+        onStatusChange={(raw, status) => {
+          const overrides = [
+            ...statusOverrides.filter((override) => override.raw !== raw),
+            { raw, status },
+          ];
+          setStatusOverrides(overrides);
+          handleImport(source, modalId, {
+            dryRun: true,
+            mapping: preview.mapping,
+            statusOverrides: overrides,
+          });
+        }}
+        rowActions={duplicateActions}
+        onRowActionChange={(row, action) =>
+          setDuplicateActions({ ...duplicateActions, [String(row)]: action })
+        }
+        onBack={() => {
+          setPreview(null);
+          setStatusOverrides([]);
+          setDuplicateActions({});
+          discardUpload();
+        }}
+        onImport={() =>
+          handleImport(source, modalId, {
+            mapping: preview.mapping,
+            statusOverrides,
+            duplicateActions,
+          })
+        }
+      />
+    );
+
   return (
     <div className="drawer fixed bottom-4 left-4 z-50">
       <input id="my-drawer" type="checkbox" className="drawer-toggle" />
@@ -129,17 +276,24 @@ export default function Sidebar() {
                     document.getElementById("my_modal_1") as HTMLDialogElement
                   )?.showModal()
                 }
-                disabled
               >
                 <File className="w-4 h-4" />
                 Import from File
-                <span className="text-xs text-base-content/70">
-                  (Coming Soon)
-                </span>
               </button>
             </li>
           </div>
 
+          {/* Export section */}
+          <div className="divider my-4"></div>
+          <ExportSection />
+
+          {/* Email section */}
+          <div className="divider my-4"></div>
+          <DigestSection />
+
+          {/* Admin section */}
+          <ScrapeStatus />
+
           <li className="mt-auto">
             <SignOutButton />
           </li>
@@ -147,47 +301,62 @@ export default function Sidebar() {
       </div>
 
       {/* File import modal */}
-      <dialog id="my_modal_1" className="modal">
-        <div className="modal-box gap-4">
+      <dialog id="my_modal_1" className="modal" onClose={resetImport}>
+        <div className={`modal-box gap-4 ${preview ? "max-w-4xl" : ""}`}>
           <div className="flex flex-row justify-between items-center mb-4">
             <h3 className="font-bold text-lg">Import from file</h3>
             <form method="dialog">
-              <button
-                className="btn btn-square btn-sm btn-error"
-                onClick={() => setImportFile(null)}
-              >
+              <button className="btn btn-square btn-sm btn-error">
                 <X className="w-4 h-4" />
               </button>
             </form>
           </div>
-          <div className="flex flex-col gap-2">
-            <div className="flex flex-col items-end gap-1">
-              <input
-                className="file-input w-full"
-                type="file"
-                name="file"
-                id="file"
-                accept=".csv, .xlsx, .xls, .json, .txt, .xml, .pdf, .doc, .docx"
-                onChange={(e) => setImportFile(e.target.files?.[0] || null)}
-              />
-              <label className="label text-xs">
-                .csv .xls .xlsx .json .txt .xml .pdf .doc .docx
-              </label>
+          {/* Parse or upload error, if any */}
+          {importError && (
+            <p className="text-xs text-error mb-2">{importError}</p>
+          )}
+          {preview ? (
+            renderPreview("file", "my_modal_1")
+          ) : (
+            <div className="flex flex-col gap-2">
+              <div className="flex flex-col items-end gap-1">
+                <input
+                  className="file-input w-full"
+                  type="file"
+                  name="file"
+                  id="file"
+                  accept=".csv, .tsv, .txt, .json, .xlsx"
+                  onChange={(e) => {
+                    // A new file needs a new upload
+                    setImportFile(e.target.files?.[0] || null);
+                    discardUpload();
+                  }}
+                />
+                <label className="label text-xs">
+                  .csv .tsv .txt .json .xlsx
+                </label>
+              </div>
+              <button
+                className="btn btn-success w-full btn-soft"
+                disabled={!importFile || isImporting}
+                onClick={() =>
+                  handleImport("file", "my_modal_1", { dryRun: true })
+                }
+              >
+                {isImporting ? (
+                  <span className="loading loading-spinner loading-sm"></span>
+                ) : (
+                  <span>Preview</span>
+                )}
+              </button>
             </div>
-            <button
-              className="btn btn-success w-full btn-soft"
-              disabled={!importFile}
-              onClick={() => handleFileImport()}
-            >
-              Import
-            </button>
-          </div>
+          )}
         </div>
       </dialog>
 
       {/* Clipboard import modal */}
-      <dialog id="my_modal_2" className="modal">
-        <div className="modal-box gap-4">
+      <dialog id="my_modal_2" className="modal" onClose={resetImport}>
+        <div className={`modal-box gap-4 ${preview ? "max-w-4xl" : ""}`}>
           <div className="flex flex-row justify-between items-start mb-4">
             <div className="flex flex-col gap-2">
               <h3 className="font-bold text-lg">Import from clipboard</h3>
@@ -199,49 +368,196 @@ export default function Sidebar() {
               </h3>
             </div>
             <form method="dialog">
-              <button
-                className="btn btn-square btn-sm btn-error"
-                onClick={() => setImportText("")}
-              >
+              <button className="btn btn-square btn-sm btn-error">
                 <X className="w-4 h-4" />
               </button>
             </form>
           </div>
-          <div className="flex flex-col gap-2 relative">
-            <textarea
-              className="textarea w-full resize-none pr-12"
-              placeholder="Paste your clipboard here"
-              value={importText}
-              onChange={(e) => setImportText(e.target.value)}
-            ></textarea>
-            <button
-              className="btn btn-square btn-xs btn-primary absolute top-2 right-2"
-              onClick={() =>
-                navigator.clipboard
-                  .readText()
-                  .then((text) => setImportText(text))
-              }
-            >
-              <ClipboardPaste className="w-4 h-4" />
-            </button>
-            <button
-              className="btn btn-success w-full btn-soft"
-              onClick={() => handleTextImport("my_modal_2")}
-              disabled={isImporting}
-            >
-              {isImporting ? (
-                <span className="loading loading-spinner loading-sm"></span>
-              ) : (
-                <span>Import</span>
-              )}
-            </button>
-          </div>
+          {/* Parse error, if any */}
+          {importError && (
+            <p className="text-xs text-error mb-2">{importError}</p>
+          )}
+          {preview ? (
+            renderPreview("text", "my_modal_2")
+          ) : (
+            <div className="flex flex-col gap-2 relative">
+              <textarea
+                className="textarea w-full resize-none pr-12"
+                placeholder="Paste your clipboard here"
+                value={importText}
+                onChange={(e) => setImportText(e.target.value)}
+              ></textarea>
+              <button
+                className="btn btn-square btn-xs btn-primary absolute top-2 right-2"
+                onClick={() =>
+                  navigator.clipboard
+                    .readText()
+                    .then((text) => setImportText(text))
+                }
+              >
+                <ClipboardPaste className="w-4 h-4" />
+              </button>
+              <button
+                className="btn btn-success w-full btn-soft"
+                onClick={() =>
+                  handleImport("text", "my_modal_2", { dryRun: true })
+                }
+                disabled={isImporting || !importText}
+              >
+                {isImporting ? (
+                  <span className="loading loading-spinner loading-sm"></span>
+                ) : (
+                  <span>Preview</span>
+                )}
+              </button>
+            </div>
+          )}
         </div>
       </dialog>
     </div>
   );
 }
 
+/**
+ * ExportSection component - exports applications and shares a calendar feed.
+ *
+ * Features:
+ * - Download applications as CSV (re-importable), JSON or iCalendar
+ * - Copy a private calendar feed URL for calendar apps to subscribe to
+ *
+ * @returns {JSX.Element} Export menu items
+ */
+function ExportSection() {
+  // Format currently being exported, if any
+  const [exporting, setExporting] = useState<"csv" | "json" | "ics" | null>(
+    null,
+  );
+  const [feedCopied, setFeedCopied] = useState(false);
+  const [exportError, setExportError] = useState("");
+
+  const exportApplications = useAction(api.export.exportApplications);
+  const createCalendarToken = useMutation(api.users.createCalendarToken);
+
+  // Generate the export server-side and save it as a file
+  const handleExport = async (format: "csv" | "json" | "ics") => {
+    setExporting(format);
+    setExportError("");
+    try {
+      const file = await exportApplications({ format });
+      downloadFile(file.content, file.fileName, file.mimeType);
+    } catch (error) {
+      console.error("Export error:", error);
+      setExportError("Export failed. Please try again.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  // Copy the feed URL (the token is created on first use)
+  const handleCopyFeed = async () => {
+    setExportError("");
+    try {
+      const url = await createCalendarToken({});
+      await navigator.clipboard.writeText(url);
+      setFeedCopied(true);
+      setTimeout(() => setFeedCopied(false), 2000);
+    } catch (error) {
+      console.error("Calendar feed error:", error);
+      setExportError("Could not create a calendar feed URL.");
+    }
+  };
+
+  const formats = [
+    { format: "csv" as const, label: "Export as CSV", icon: FileSpreadsheet },
+    { format: "json" as const, label: "Export as JSON", icon: FileJson },
+    { format: "ics" as const, label: "Export to Calendar", icon: CalendarDays },
+  ];
+
+  return (
+    <div className="flex flex-col gap-2">
+      <h3 className="text-sm font-semibold text-base-content/70 uppercase tracking-wide">
+        Export
+      </h3>
+      {formats.map(({ format, label, icon: Icon }) => (
+        <li key={format}>
+          <button
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null}
+          >
+            {exporting === format ? (
+              <span className="loading loading-spinner loading-xs"></span>
+            ) : (
+              <Icon className="w-4 h-4" />
+            )}
+            {label}
+          </button>
+        </li>
+      ))}
+      <li>
+        <button onClick={handleCopyFeed}>
+          <LinkIcon className="w-4 h-4" />
+          {feedCopied ? "Feed URL copied!" : "Copy calendar feed URL"}
+        </button>
+      </li>
+      {exportError && <p className="text-xs text-error">{exportError}</p>}
+    </div>
+  );
+}
+
+/**
+ * DigestSection component - opts in to the weekly email digest.
+ *
+ * Features:
+ * - Toggle the weekly digest of new matches, stale applications and interviews
+ * - Disabled without an email address on the profile
+ *
+ * @returns {JSX.Element} Email menu items
+ */
+function DigestSection() {
+  const user = useQuery(api.users.getUser);
+  const setDigestOptIn = useMutation(api.users.setDigestOptIn);
+  const [digestError, setDigestError] = useState("");
+
+  const handleToggle = async (enabled: boolean) => {
+    setDigestError("");
+    try {
+      await setDigestOptIn({ enabled });
+    } catch (error) {
+      console.error("Digest opt-in error:", error);
+      setDigestError("Could not update the digest setting.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <h3 className="text-sm font-semibold text-base-content/70 uppercase tracking-wide">
+        Email
+      </h3>
+      <li>
+        <label className="flex flex-row items-center justify-between">
+          <span className="flex flex-row items-center gap-2">
+            <Mail className="w-4 h-4" />
+            Weekly digest
+          </span>
+          <input
+            type="checkbox"
+            className="toggle toggle-sm toggle-primary"
+            checked={user?.digestOptIn ?? false}
+            disabled={!user?.email}
+            onChange={(e) => handleToggle(e.target.checked)}
+          />
+        </label>
+      </li>
+      {user && !user.email && (
+        <p className="text-xs opacity-70">
+          Add an email address to receive the digest.
+        </p>
+      )}
+      {digestError && <p className="text-xs text-error">{digestError}</p>}
+    </div>
+  );
+}
+
 /**
  * SignOutButton component - handles user sign out functionality.
  *
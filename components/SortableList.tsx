@@ -1,5 +1,6 @@
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
+import { HistoryEntry } from "@/convex/history";
 import { useMutation } from "convex/react";
 import { Trash } from "lucide-react";
 import React, { useState, useEffect } from "react";
@@ -7,54 +8,64 @@ import { ReactSortable } from "react-sortablejs";
 
 /**
  * Interface defining the structure of items in the sortable list
- * Each item represents a job application status with a unique ID
+ * Each item represents a timestamped status history entry with a unique ID
  */
 interface ItemType {
   id: string;
-  name:
-    | "interested"
-    | "applied"
-    | "assessment"
-    | "interviewed"
-    | "offered"
-    | "rejected"
-    | "archived";
+  name: HistoryEntry["status"];
+  at: number;
+  note?: string;
+}
+
+/**
+ * Formats a timestamp as a local "YYYY-MM-DD" string for date inputs
+ *
+ * @param timestamp - Timestamp in milliseconds
+ * @returns Date string usable as a date input value
+ */
+function toDateInputValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
 }
 
 /**
  * SortableList Component
  *
  * A drag-and-drop sortable list component for managing job application status history.
- * Allows users to reorder status items and delete them from the list.
+ * Allows users to reorder status items, edit their dates and notes, and delete them.
  * The first item represents the current status, while the rest represent the history.
  *
- * @param list - Array of status strings representing the application's status history
+ * @param list - Timestamped status history entries (newest first)
  * @param id - The application ID for updating the status in the database
  */
 export default function SortableList({
   list,
   id,
 }: {
-  list: string[] | null;
+  list: HistoryEntry[] | null;
   id: Id<"applications"> | null;
 }) {
   // Local state to manage the sortable items with unique IDs
   const [items, setItems] = useState<ItemType[]>([]);
 
   // Mutation hook for updating application status history in Convex database
-  const updateStatusHistory = useMutation(api.applications.changeStatusOrder);
+  const updateStatusHistory = useMutation(api.applications.updateStatusHistory);
 
   /**
    * Effect hook to sync local items state with the incoming list prop
-   * Transforms string array into objects with unique IDs for ReactSortable
+   * Transforms history entries into objects with unique IDs for ReactSortable
    */
   useEffect(() => {
     if (list) {
-      // Create items with unique IDs by combining index and name
-      const itemsWithIds = list.map((name, index) => ({
-        id: `item-${index}-${name}`,
-        name: name,
-      })) as ItemType[];
+      // Create items with unique IDs by combining index and status
+      const itemsWithIds = list.map((entry, index) => ({
+        id: `item-${index}-${entry.status}`,
+        name: entry.status,
+        at: entry.at,
+        note: entry.note,
+      }));
       setItems(itemsWithIds);
     } else {
       // Clear items if no list provided
@@ -62,28 +73,76 @@ export default function SortableList({
     }
   }, [list]);
 
+  /**
+   * Saves the given items as the application's status history
+   * The server re-sorts by date, so the newest item becomes the current status
+   */
+  const saveItems = (newItems: ItemType[]) => {
+    if (!id || newItems.length === 0) return;
+
+    updateStatusHistory({
+      id: id,
+      history: newItems.map((item) => ({
+        status: item.name,
+        at: item.at,
+        note: item.note || undefined,
+      })),
+    });
+  };
+
   /**
    * Handles reordering of items when user drags and drops
-   * Updates the application's status history in the database
-   * First item becomes current status, rest become history
+   * The existing dates stay in place (newest first) and the statuses move
+   * between them, so the reordered list keeps a consistent timeline
    */
   const handleSetItems = (newItems: ItemType[]) => {
     if (!id) return;
 
-    // Update local state
-    setItems(newItems);
+    // ReactSortable also calls setList on mount; ignore unchanged orders
+    if (newItems.every((item, index) => item.id === items[index]?.id)) {
+      return;
+    }
 
-    // Extract status names from reordered items
-    const newNames = newItems.map((item) => item.name);
+    // Reassign the original timestamps positionally to the new order
+    const timestamps = items.map((item) => item.at).sort((a, b) => b - a);
+    const reordered = newItems.map((item, index) => ({
+      ...item,
+      at: timestamps[index] ?? item.at,
+    }));
 
-    // Update database if we have items
-    if (newNames.length > 0) {
-      updateStatusHistory({
-        id: id,
-        currentStatus: newNames[0], // First item is current status
-        history: newNames.slice(1), // Rest are history
-      });
-    }
+    setItems(reordered);
+    saveItems(reordered);
+  };
+
+  /**
+   * Handles changes to an item's date
+   * Keeps the original time of day so same-day entries stay ordered
+   */
+  const handleDateChange = (itemToUpdate: ItemType, value: string) => {
+    if (!value) return;
+
+    const [year, month, day] = value.split("-").map(Number);
+    const date = new Date(itemToUpdate.at);
+    date.setFullYear(year, month - 1, day);
+
+    saveItems(
+      items.map((item) =>
+        item.id === itemToUpdate.id ? { ...item, at: date.getTime() } : item,
+      ),
+    );
+  };
+
+  /**
+   * Handles changes to an item's note (saved when the input loses focus)
+   */
+  const handleNoteChange = (itemToUpdate: ItemType, note: string) => {
+    if ((itemToUpdate.note || "") === note) return;
+
+    saveItems(
+      items.map((item) =>
+        item.id === itemToUpdate.id ? { ...item, note } : item,
+      ),
+    );
   };
 
   /**
@@ -93,18 +152,8 @@ export default function SortableList({
   const handleDeleteItem = (itemToDelete: ItemType) => {
     if (!id) return;
 
-    // Filter out the deleted item
-    const newItems = items.filter((item) => item.id !== itemToDelete.id);
-    const newNames = newItems.map((item) => item.name);
-
-    // Update database with remaining items
-    if (newNames.length > 0) {
-      updateStatusHistory({
-        id: id,
-        currentStatus: newNames[0], // First item becomes current status
-        history: newNames.slice(1), // Rest become history
-      });
-    }
+    // Filter out the deleted item and save the remaining items
+    saveItems(items.filter((item) => item.id !== itemToDelete.id));
   };
 
   return (
@@ -117,18 +166,37 @@ export default function SortableList({
       {items.map((item, index) => (
         <div
           key={item.id}
-          className={`flex items-center gap-3 p-3 rounded-lg cursor-pointer justify-between ${
+          className={`flex flex-col gap-2 p-3 rounded-lg cursor-pointer ${
             // First item (current status) gets different styling
             index === 0
               ? "bg-secondary text-secondary-content"
               : "bg-primary text-primary-content"
           }`}
         >
-          {/* Display status name with capitalized first letter */}
-          {item.name.charAt(0).toUpperCase() + item.name.slice(1)}
+          <div className="flex items-center gap-3 justify-between">
+            {/* Display status name with capitalized first letter */}
+            {item.name.charAt(0).toUpperCase() + item.name.slice(1)}
+
+            {/* Delete button for removing status from history */}
+            <Trash className="w-4 h-4" onClick={() => handleDeleteItem(item)} />
+          </div>
+
+          {/* Date the status was entered */}
+          <input
+            type="date"
+            className="input input-xs w-full text-base-content"
+            value={toDateInputValue(item.at)}
+            onChange={(e) => handleDateChange(item, e.target.value)}
+          />
 
-          {/* Delete button for removing status from history */}
-          <Trash className="w-4 h-4" onClick={() => handleDeleteItem(item)} />
+          {/* Optional note about the transition */}
+          <input
+            type="text"
+            className="input input-xs w-full text-base-content"
+            placeholder="Add a note"
+            defaultValue={item.note || ""}
+            onBlur={(e) => handleNoteChange(item, e.target.value)}
+          />
         </div>
       ))}
     </ReactSortable>
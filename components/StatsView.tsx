@@ -0,0 +1,181 @@
+import { api } from "@/convex/_generated/api";
+import { useQuery } from "convex/react";
+import { SkeletonLoader } from "./SkeletonLoader";
+
+/**
+ * Formats a 0-1 ratio as a whole percentage
+ *
+ * @param rate - Ratio to format (null when there is no data)
+ * @returns Percentage string or a dash placeholder
+ */
+function formatRate(rate: number | null): string {
+  return rate === null ? "–" : `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Formats a number of days with one decimal place
+ *
+ * @param days - Number of days (null when there is no data)
+ * @returns Day count string or a dash placeholder
+ */
+function formatDays(days: number | null): string {
+  return days === null ? "–" : `${days.toFixed(1)}d`;
+}
+
+/**
+ * Capitalizes the first letter of a status or source name
+ */
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * StatsView component - displays analytics for the user's applications.
+ *
+ * Features:
+ * - Funnel from interested to offered with stage-to-stage conversion
+ * - Response, interview and offer rates for submitted applications
+ * - Median days between consecutive stages
+ * - Breakdown by opportunity source for linked applications
+ *
+ * @returns {JSX.Element} Application analytics dashboard
+ */
+export default function StatsView() {
+  // Fetch precomputed analytics from Convex
+  const stats = useQuery(api.stats.getApplicationStats);
+
+  if (stats === undefined) {
+    return (
+      <div className="flex flex-col gap-2 w-full pr-4">
+        <h2 className="text-lg font-semibold">Stats</h2>
+        <div className="bg-base-100 rounded-box shadow-md">
+          <SkeletonLoader count={10} height={60} />
+        </div>
+      </div>
+    );
+  }
+
+  // Widest funnel bar is the first stage
+  const funnelMax = Math.max(stats.funnel[0]?.count ?? 0, 1);
+
+  return (
+    <div className="flex flex-col gap-4 w-full pr-4 h-[44.5rem] overflow-auto">
+      <h2 className="text-lg font-semibold">Stats</h2>
+
+      {/* Headline response metrics */}
+      <div className="stats shadow-md bg-base-100">
+        <div className="stat">
+          <div className="stat-title">Submitted</div>
+          <div className="stat-value">{stats.responses.submitted}</div>
+          <div className="stat-desc">of {stats.responses.total} tracked</div>
+        </div>
+        <div className="stat">
+          <div className="stat-title">Response rate</div>
+          <div className="stat-value">
+            {formatRate(stats.responses.responseRate)}
+          </div>
+          <div className="stat-desc">
+            {stats.responses.responded} responded, {stats.responses.rejected}{" "}
+            rejected
+          </div>
+        </div>
+        <div className="stat">
+          <div className="stat-title">Interview rate</div>
+          <div className="stat-value">
+            {formatRate(stats.responses.interviewRate)}
+          </div>
+          <div className="stat-desc">
+            Offer rate {formatRate(stats.responses.offerRate)}
+          </div>
+        </div>
+        <div className="stat">
+          <div className="stat-title">Time to response</div>
+          <div className="stat-value">
+            {formatDays(stats.responses.medianDaysToResponse)}
+          </div>
+          <div className="stat-desc">median after applying</div>
+        </div>
+      </div>
+
+      <div className="flex gap-4">
+        {/* Funnel from interested to offered */}
+        <div className="flex-1 bg-base-100 rounded-box shadow-md p-4 flex flex-col gap-3">
+          <h3 className="font-semibold">Funnel</h3>
+          {stats.funnel.map((step, index) => {
+            const previous = stats.funnel[index - 1]?.count;
+            return (
+              <div key={step.stage} className="flex flex-col gap-1">
+                <div className="flex justify-between text-sm">
+                  <span>{capitalize(step.stage)}</span>
+                  <span className="opacity-70">
+                    {step.count}
+                    {previous ? ` (${formatRate(step.count / previous)})` : ""}
+                  </span>
+                </div>
+                <progress
+                  className="progress progress-primary w-full"
+                  value={step.count}
+                  max={funnelMax}
+                ></progress>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Median days between consecutive stages */}
+        <div className="flex-1 bg-base-100 rounded-box shadow-md p-4 flex flex-col gap-3">
+          <h3 className="font-semibold">Days between stages</h3>
+          <table className="table table-sm">
+            <thead>
+              <tr>
+                <th>Stage</th>
+                <th>Median</th>
+                <th>Samples</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.stageDurations.map((duration) => (
+                <tr key={duration.to}>
+                  <td>
+                    {capitalize(duration.from)} → {capitalize(duration.to)}
+                  </td>
+                  <td>{formatDays(duration.medianDays)}</td>
+                  <td>{duration.count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Breakdown by opportunity source */}
+      <div className="bg-base-100 rounded-box shadow-md p-4 flex flex-col gap-3">
+        <h3 className="font-semibold">By source</h3>
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Source</th>
+              <th>Tracked</th>
+              <th>Submitted</th>
+              <th>Response rate</th>
+              <th>Interview rate</th>
+              <th>Offer rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.sources.map((source) => (
+              <tr key={source.source}>
+                <td>{capitalize(source.source)}</td>
+                <td>{source.total}</td>
+                <td>{source.submitted}</td>
+                <td>{formatRate(source.responseRate)}</td>
+                <td>{formatRate(source.interviewRate)}</td>
+                <td>{formatRate(source.offerRate)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
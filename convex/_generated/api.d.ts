@@ -15,10 +15,31 @@ import type {
 } from "convex/server";
 import type * as applications from "../applications.js";
 import type * as auth from "../auth.js";
+import type * as companies from "../companies.js";
+import type * as crons from "../crons.js";
+import type * as digests from "../digests.js";
+import type * as events from "../events.js";
+import type * as export_ from "../export.js";
+import type * as facets from "../facets.js";
+import type * as gazetteer from "../gazetteer.js";
+import type * as history from "../history.js";
 import type * as http from "../http.js";
 import type * as import_ from "../import.js";
+import type * as locationParser from "../locationParser.js";
+import type * as mail from "../mail.js";
+import type * as migrations from "../migrations.js";
+import type * as notifications from "../notifications.js";
 import type * as opportunities from "../opportunities.js";
+import type * as places from "../places.js";
+import type * as readmeParser from "../readmeParser.js";
+import type * as reminders from "../reminders.js";
+import type * as savedSearches from "../savedSearches.js";
+import type * as scrapeRuns from "../scrapeRuns.js";
+import type * as scraper from "../scraper.js";
+import type * as sources from "../sources.js";
+import type * as stats from "../stats.js";
 import type * as unions from "../unions.js";
+import type * as uploads from "../uploads.js";
 import type * as users from "../users.js";
 
 /**
@@ -32,10 +53,31 @@ import type * as users from "../users.js";
 declare const fullApi: ApiFromModules<{
   applications: typeof applications;
   auth: typeof auth;
+  companies: typeof companies;
+  crons: typeof crons;
+  digests: typeof digests;
+  events: typeof events;
+  export: typeof export_;
+  facets: typeof facets;
+  gazetteer: typeof gazetteer;
+  history: typeof history;
   http: typeof http;
   import: typeof import_;
+  locationParser: typeof locationParser;
+  mail: typeof mail;
+  migrations: typeof migrations;
+  notifications: typeof notifications;
   opportunities: typeof opportunities;
+  places: typeof places;
+  readmeParser: typeof readmeParser;
+  reminders: typeof reminders;
+  savedSearches: typeof savedSearches;
+  scrapeRuns: typeof scrapeRuns;
+  scraper: typeof scraper;
+  sources: typeof sources;
+  stats: typeof stats;
   unions: typeof unions;
+  uploads: typeof uploads;
   users: typeof users;
 }>;
 export declare const api: FilterApi<
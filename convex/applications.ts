@@ -1,7 +1,17 @@
 import { v } from "convex/values";
-import { query, mutation, internalMutation } from "./_generated/server";
+import {
+  query,
+  mutation,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import { Id } from "./_generated/dataModel";
 import { getAuthUserId } from "@convex-dev/auth/server";
-import { statusUnion } from "./unions";
+import { historyEntry, statusUnion } from "./unions";
+import { getStatusHistory, sortHistory } from "./history";
+import { resolveCompany } from "./companies";
+import { clearNotification } from "./notifications";
+import { deleteApplicationEvents } from "./events";
 
 /**
  * Applications Management Functions
@@ -40,7 +50,7 @@ export const getApplications = query({
  * @param company - Company name
  * @param title - Job title/position
  * @param status - Initial application status (defaults to "interested")
- * @param history - Previous status history (optional)
+ * @param statusHistory - Timestamped status history, newest first (optional)
  * @param notes - User notes about the application (optional)
  * @param link - Job posting URL (optional)
  * @param lastUpdated - Last modification timestamp (optional)
@@ -51,7 +61,7 @@ export const createApplication = mutation({
     company: v.string(),
     title: v.string(),
     status: v.optional(statusUnion),
-    history: v.optional(v.array(statusUnion)),
+    statusHistory: v.optional(v.array(historyEntry)),
     notes: v.optional(v.string()),
     link: v.optional(v.string()),
     lastUpdated: v.optional(v.number()),
@@ -63,13 +73,18 @@ export const createApplication = mutation({
       throw new Error("Client is not authenticated!");
     }
 
+    const status = args.status || "interested"; // Default to "interested" if not specified
+
     // Create new application with provided data
     const application = await ctx.db.insert("applications", {
       userId: userId,
       company: args.company,
+      companyId: await resolveCompany(ctx, args.company),
       title: args.title,
-      status: args.status || "interested", // Default to "interested" if not specified
-      history: args.history || undefined,
+      status: status,
+      statusHistory: args.statusHistory
+        ? sortHistory(args.statusHistory)
+        : [{ status: status, at: Date.now() }], // Record the initial status
       notes: args.notes || undefined,
       link: args.link || undefined,
       lastUpdated: args.lastUpdated || undefined,
@@ -110,33 +125,116 @@ export const insertApplications = internalMutation({
     userId: v.id("users"),
   },
   handler: async (ctx, args) => {
+    const now = Date.now();
+
+    // Link companies one at a time, so rows naming the same new company
+    // don't each create it
+    const companyIds: Id<"companies">[] = [];
+    for (const application of args.applications) {
+      companyIds.push(await resolveCompany(ctx, application.company));
+    }
+
     // Insert all applications in parallel for better performance
     await Promise.all(
-      args.applications.map((application) =>
+      args.applications.map((application, index) =>
         ctx.db.insert("applications", {
           ...application,
+          companyId: companyIds[index],
           userId: args.userId,
-          lastUpdated: Date.now(), // Set current timestamp
+          statusHistory: [{ status: application.status, at: now }], // Record the imported status
+          lastUpdated: now, // Set current timestamp
         }),
       ),
     );
   },
 });
 
+/**
+ * Retrieves all applications for a user (internal query)
+ *
+ * Used by server-side functions such as imports, which run without the
+ * user's auth context being re-checked for every lookup.
+ *
+ * @param userId - ID of the user whose applications to fetch
+ * @returns Array of the user's applications
+ */
+export const getUserApplications = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("applications")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .collect();
+  },
+});
+
+/**
+ * Bulk update existing applications from imported data (internal mutation)
+ *
+ * Used when an imported row matches an existing application and the user
+ * chose to update it. A changed status is recorded in the status history;
+ * notes are replaced when the imported row has any.
+ *
+ * @param updates - Application IDs with the imported status and notes
+ * @param userId - ID of the user who owns the applications
+ */
+export const updateImportedApplications = internalMutation({
+  args: {
+    updates: v.array(
+      v.object({
+        id: v.id("applications"),
+        status: statusUnion,
+        notes: v.optional(v.string()),
+      }),
+    ),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    // One at a time, so several rows updating the same application each
+    // see the previous row's changes
+    for (const update of args.updates) {
+      // Verify the application exists and belongs to the user
+      const application = await ctx.db.get(update.id);
+      if (application?.userId !== args.userId) {
+        throw new Error("Client is not authorized to update this application!");
+      }
+
+      const statusChanged = update.status !== application.status;
+      await ctx.db.patch(update.id, {
+        ...(statusChanged && {
+          status: update.status,
+          statusHistory: [
+            { status: update.status, at: now, note: "Imported" },
+            ...getStatusHistory(application),
+          ],
+          history: undefined, // Legacy history is folded into statusHistory
+        }),
+        ...(update.notes && { notes: update.notes }),
+        lastUpdated: now,
+      });
+    }
+  },
+});
+
 /**
  * Updates the status of an application and maintains status history
  *
- * When a status is updated, the previous status is added to the history array.
- * This maintains a chronological record of status changes for tracking progress.
+ * When a status is updated, a timestamped entry for the new status is added
+ * to the front of the status history. This maintains a dated record of status
+ * changes so response times between stages can be measured.
  *
  * @param id - Application ID to update
  * @param status - New status to set
+ * @param note - Note to attach to the transition (optional)
  * @returns Success message
  */
 export const updateStatus = mutation({
   args: {
     id: v.id("applications"),
     status: statusUnion,
+    note: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -157,11 +255,17 @@ export const updateStatus = mutation({
       throw new Error("Application status is already set to this status!");
     }
 
-    // Update status and add previous status to history
-    const updatedApplication = await ctx.db.patch(args.id, {
+    const now = Date.now();
+
+    // Update status and record the transition at the front of the history
+    await ctx.db.patch(args.id, {
       status: args.status,
-      history: [application.status, ...(application.history || [])], // Add current status to history
-      lastUpdated: Date.now(),
+      statusHistory: [
+        { status: args.status, at: now, note: args.note || undefined },
+        ...getStatusHistory(application),
+      ],
+      history: undefined, // Legacy history is folded into statusHistory
+      lastUpdated: now,
     });
 
     return "success";
@@ -232,29 +336,32 @@ export const deleteApplication = mutation({
       throw new Error("Client is not authorized to delete this application!");
     }
 
-    // Delete the application
+    // Delete the application with its events and the notifications about it
     await ctx.db.delete(args.id);
+    await deleteApplicationEvents(ctx, args.id);
+    await clearNotification(ctx, userId, `stale:${args.id}`);
+    await clearNotification(ctx, userId, `closed:${args.id}`);
+    await clearNotification(ctx, userId, `followup:${args.id}`);
     return "success";
   },
   returns: v.string(),
 });
 
 /**
- * Changes the order of status history for an application
+ * Replaces the timestamped status history of an application
  *
- * This function is used when users manually reorder the status history
- * in the UI (e.g., drag and drop). It updates both the current status
- * and the history array to reflect the new order.
+ * This function is used when users edit the status history in the UI
+ * (e.g., changing a date, editing a note, reordering or deleting an entry).
+ * Entries are re-sorted by timestamp and the newest entry becomes the
+ * current status, so the history can never contradict itself.
  *
  * @param id - Application ID to update
- * @param currentStatus - New current status (first in the reordered list)
- * @param history - New history array (remaining statuses in order)
+ * @param history - New history entries (any order, at least one entry)
  */
-export const changeStatusOrder = mutation({
+export const updateStatusHistory = mutation({
   args: {
     id: v.id("applications"),
-    currentStatus: statusUnion,
-    history: v.array(statusUnion),
+    history: v.array(historyEntry),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -268,10 +375,18 @@ export const changeStatusOrder = mutation({
       throw new Error("Client is not authorized to update this application!");
     }
 
-    // Update the application with new status and history order
+    if (args.history.length === 0) {
+      throw new Error("Status history must contain at least one entry!");
+    }
+
+    // Newest entry determines the current status
+    const statusHistory = sortHistory(args.history);
+
     await ctx.db.patch(args.id, {
-      status: args.currentStatus,
-      history: args.history,
+      status: statusHistory[0].status,
+      statusHistory: statusHistory,
+      history: undefined, // Legacy history is folded into statusHistory
+      lastUpdated: Date.now(),
     });
   },
 });
@@ -313,7 +428,10 @@ export const updateApplication = mutation({
 
     // Build update object with only provided fields
     const updateData: any = {};
-    if (args.company !== undefined) updateData.company = args.company;
+    if (args.company !== undefined) {
+      updateData.company = args.company;
+      updateData.companyId = await resolveCompany(ctx, args.company);
+    }
     if (args.title !== undefined) updateData.title = args.title;
     if (args.notes !== undefined) updateData.notes = args.notes;
     if (args.link !== undefined) updateData.link = args.link;
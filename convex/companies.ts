@@ -0,0 +1,354 @@
+import { v } from "convex/values";
+import {
+  internalMutation,
+  MutationCtx,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { syncOpportunityPlaces } from "./places";
+
+/**
+ * Company Management Functions
+ *
+ * This module keeps one record per company, so postings and applications
+ * listed as "Google", "Google LLC" and "google" belong to the same company.
+ * Names are matched by a normalized key (see `normalizeCompanyName`) through
+ * the `companyAliases` table; names that normalize differently (e.g.
+ * "Facebook" and "Meta") are joined with `mergeCompanies`.
+ *
+ * Curate companies from the dashboard or CLI, e.g.:
+ *   npx convex run companies:updateCompany '{"id": "...", "domain": "google.com"}'
+ */
+
+// Legal suffixes ignored when matching company names
+const LEGAL_SUFFIXES =
+  /\s+(inc|incorporated|llc|llp|lp|ltd|limited|corp|corporation|co|plc|gmbh|ag|sa|pbc)$/;
+
+/**
+ * Computes the key company names are matched by
+ *
+ * Case, punctuation, a leading "The" and legal suffixes such as "Inc." or
+ * "LLC" are ignored, so "The Google, LLC." and "google" share a key.
+ *
+ * @param name - Company name as listed
+ * @returns Normalized company key
+ */
+export function normalizeCompanyName(name: string): string {
+  let key = name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[.,'’"()]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^the\s+/, "");
+  while (LEGAL_SUFFIXES.test(key)) {
+    key = key.replace(LEGAL_SUFFIXES, "");
+  }
+  // Names made up of a suffix alone (e.g. "Co") are kept as they are
+  return key || name.toLowerCase().trim();
+}
+
+/**
+ * Finds the company a name belongs to, creating it if it's new
+ *
+ * Names that match an existing company under a different spelling are
+ * remembered as aliases of that company.
+ *
+ * @param ctx - Mutation context
+ * @param name - Company name as listed
+ * @returns ID of the company
+ */
+export async function resolveCompany(
+  ctx: MutationCtx,
+  name: string,
+): Promise<Id<"companies">> {
+  const displayName = name.trim();
+  const key = normalizeCompanyName(displayName);
+
+  const alias = await ctx.db
+    .query("companyAliases")
+    .withIndex("by_key", (q) => q.eq("key", key))
+    .unique();
+  if (alias) {
+    const company = await ctx.db.get(alias.companyId);
+    if (
+      company &&
+      company.name !== displayName &&
+      !company.aliases.includes(displayName)
+    ) {
+      await ctx.db.patch(company._id, {
+        aliases: [...company.aliases, displayName],
+      });
+    }
+    return alias.companyId;
+  }
+
+  const companyId = await ctx.db.insert("companies", {
+    name: displayName,
+    aliases: [],
+    opportunityCount: 0,
+  });
+  await ctx.db.insert("companyAliases", { key, companyId });
+  return companyId;
+}
+
+/**
+ * Finds the company a name belongs to without creating it
+ *
+ * @param ctx - Query context
+ * @param name - Canonical name or any alias of the company
+ * @returns The company, or null if no company has that name
+ */
+async function findCompany(
+  ctx: QueryCtx,
+  name: string,
+): Promise<Doc<"companies"> | null> {
+  const alias = await ctx.db
+    .query("companyAliases")
+    .withIndex("by_key", (q) => q.eq("key", normalizeCompanyName(name)))
+    .unique();
+  return alias ? await ctx.db.get(alias.companyId) : null;
+}
+
+/**
+ * Adjusts the number of opportunities linked to a company
+ *
+ * @param ctx - Mutation context
+ * @param companyId - Company to update
+ * @param delta - Change in the number of opportunities
+ */
+export async function countCompanyOpportunities(
+  ctx: MutationCtx,
+  companyId: Id<"companies">,
+  delta: number,
+): Promise<void> {
+  const company = await ctx.db.get(companyId);
+  if (company) {
+    await ctx.db.patch(companyId, {
+      opportunityCount: company.opportunityCount + delta,
+    });
+  }
+}
+
+/**
+ * Gets the companies with opportunities or applications of the user
+ *
+ * Used to populate the company filter. Companies only known from other
+ * users' applications are left out.
+ *
+ * @returns Companies ordered by name, with their number of opportunities
+ * and of the user's applications
+ */
+export const getCompanies = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+
+    // Count the user's applications per company
+    const applicationCounts = new Map<Id<"companies">, number>();
+    if (userId !== null) {
+      const applications = await ctx.db
+        .query("applications")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .collect();
+      for (const application of applications) {
+        if (application.companyId) {
+          applicationCounts.set(
+            application.companyId,
+            (applicationCounts.get(application.companyId) ?? 0) + 1,
+          );
+        }
+      }
+    }
+
+    const companies = await ctx.db
+      .query("companies")
+      .withIndex("by_name")
+      .collect();
+    return companies
+      .map((company) => ({
+        _id: company._id,
+        name: company.name,
+        domain: company.domain,
+        logoUrl: company.logoUrl,
+        opportunityCount: company.opportunityCount,
+        applicationCount: applicationCounts.get(company._id) ?? 0,
+      }))
+      .filter(
+        (company) =>
+          company.opportunityCount > 0 || company.applicationCount > 0,
+      );
+  },
+});
+
+/**
+ * Gets a company with all of its postings and the user's applications there
+ *
+ * Backs the company page, so the user can see at a glance whether they
+ * already applied to a company. Applications not linked to a company yet
+ * (see migrations.ts) are matched by name against all of its aliases.
+ *
+ * @param name - Canonical name or any alias of the company
+ * @returns The company, its opportunities (newest first) and the user's
+ * applications (newest first); null if no company has that name
+ */
+export const getCompanyOverview = query({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const company = await findCompany(ctx, args.name);
+    if (!company) return null;
+
+    const opportunities = await ctx.db
+      .query("opportunities")
+      .withIndex("by_companyId_created", (q) => q.eq("companyId", company._id))
+      .order("desc")
+      .collect();
+
+    const userId = await getAuthUserId(ctx);
+    const keys = new Set(
+      (
+        await ctx.db
+          .query("companyAliases")
+          .withIndex("by_companyId", (q) => q.eq("companyId", company._id))
+          .collect()
+      ).map((alias) => alias.key),
+    );
+    const applications =
+      userId === null
+        ? []
+        : (
+            await ctx.db
+              .query("applications")
+              .withIndex("by_userId", (q) => q.eq("userId", userId))
+              .order("desc")
+              .collect()
+          ).filter((application) =>
+            application.companyId !== undefined
+              ? application.companyId === company._id
+              : keys.has(normalizeCompanyName(application.company)),
+          );
+
+    return { company, opportunities, applications };
+  },
+});
+
+/**
+ * Updates the canonical name, domain or logo of a company (internal mutation)
+ *
+ * A new name is matched to the company from then on; the previous name is
+ * kept as an alias.
+ *
+ * @param id - Company ID to update
+ * @param name - New canonical name (optional)
+ * @param domain - Website domain, e.g. "google.com" (optional)
+ * @param logoUrl - Logo image URL (optional)
+ */
+export const updateCompany = internalMutation({
+  args: {
+    id: v.id("companies"),
+    name: v.optional(v.string()),
+    domain: v.optional(v.string()),
+    logoUrl: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const company = await ctx.db.get(args.id);
+    if (!company) {
+      throw new Error("Company not found!");
+    }
+
+    const name = args.name?.trim();
+    let aliases = company.aliases;
+    if (name && name !== company.name) {
+      const key = normalizeCompanyName(name);
+      const alias = await ctx.db
+        .query("companyAliases")
+        .withIndex("by_key", (q) => q.eq("key", key))
+        .unique();
+      if (alias && alias.companyId !== company._id) {
+        throw new Error("Another company already uses this name!");
+      }
+      if (!alias) {
+        await ctx.db.insert("companyAliases", { key, companyId: company._id });
+      }
+      aliases = [
+        company.name,
+        ...company.aliases.filter((alias) => alias !== name),
+      ];
+    }
+
+    await ctx.db.patch(company._id, {
+      name: name || company.name,
+      aliases,
+      domain: args.domain ?? company.domain,
+      logoUrl: args.logoUrl ?? company.logoUrl,
+    });
+  },
+});
+
+/**
+ * Merges one company into another (internal mutation)
+ *
+ * Moves the names, opportunities and applications of `from` to `into` and
+ * deletes `from`. Used for names that don't normalize to the same key
+ * (e.g. "Facebook" and "Meta").
+ *
+ * @param from - Company to merge and delete
+ * @param into - Company to keep
+ */
+export const mergeCompanies = internalMutation({
+  args: {
+    from: v.id("companies"),
+    into: v.id("companies"),
+  },
+  handler: async (ctx, args) => {
+    if (args.from === args.into) {
+      throw new Error("Cannot merge a company into itself!");
+    }
+    const from = await ctx.db.get(args.from);
+    const into = await ctx.db.get(args.into);
+    if (!from || !into) {
+      throw new Error("Company not found!");
+    }
+
+    const aliases = await ctx.db
+      .query("companyAliases")
+      .withIndex("by_companyId", (q) => q.eq("companyId", from._id))
+      .collect();
+    const opportunities = await ctx.db
+      .query("opportunities")
+      .withIndex("by_companyId_created", (q) => q.eq("companyId", from._id))
+      .collect();
+    const applications = await ctx.db
+      .query("applications")
+      .withIndex("by_companyId", (q) => q.eq("companyId", from._id))
+      .collect();
+
+    await Promise.all([
+      ...aliases.map((alias) =>
+        ctx.db.patch(alias._id, { companyId: into._id }),
+      ),
+      ...opportunities.map(async (opportunity) => {
+        await ctx.db.patch(opportunity._id, { companyId: into._id });
+        await syncOpportunityPlaces(ctx, opportunity._id, {
+          ...opportunity,
+          companyId: into._id,
+        });
+      }),
+      ...applications.map((application) =>
+        ctx.db.patch(application._id, { companyId: into._id }),
+      ),
+    ]);
+
+    await ctx.db.patch(into._id, {
+      aliases: [
+        ...new Set([...into.aliases, from.name, ...from.aliases]),
+      ].filter((alias) => alias !== into.name),
+      domain: into.domain ?? from.domain,
+      logoUrl: into.logoUrl ?? from.logoUrl,
+      opportunityCount: into.opportunityCount + opportunities.length,
+    });
+    await ctx.db.delete(from._id);
+  },
+});
@@ -0,0 +1,49 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+/**
+ * Scheduled Jobs
+ *
+ * This module registers the deployment's cron jobs. Scraping is checked
+ * every 15 minutes; each source is only scraped once its own interval has
+ * passed (see scraper.ts), so intervals are configured per source in the
+ * registry rather than here. Postings that aged out of their source's
+ * freshness window are flagged stale once a day, users are notified of
+ * applications that haven't been updated for a while, and the weekly email
+ * digest goes out on Mondays. Follow-up reminders are checked every 15 minutes
+ * and flipped to due once their time has come.
+ */
+const crons = cronJobs();
+
+crons.interval(
+  "scrape due sources",
+  { minutes: 15 },
+  internal.scraper.scrapeDueSources,
+);
+
+crons.daily(
+  "mark stale opportunities",
+  { hourUTC: 6, minuteUTC: 0 },
+  internal.opportunities.markStaleOpportunities,
+);
+
+crons.daily(
+  "notify stale applications",
+  { hourUTC: 14, minuteUTC: 0 },
+  internal.notifications.notifyStaleApplications,
+  {},
+);
+
+crons.interval(
+  "flip due reminders",
+  { minutes: 15 },
+  internal.reminders.flipDueReminders,
+);
+
+crons.weekly(
+  "send weekly digests",
+  { dayOfWeek: "monday", hourUTC: 13, minuteUTC: 0 },
+  internal.mail.sendWeeklyDigests,
+);
+
+export default crons;
@@ -0,0 +1,318 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { matchesFilters, matchesSearch } from "./opportunities";
+import { isStaleApplication, STALE_APPLICATION_DAYS } from "./notifications";
+import { eventKindLabels } from "./unions";
+
+/**
+ * Weekly Email Digest
+ *
+ * This module gathers and renders the weekly digest for users who opted in
+ * on their profile: new opportunities matching their saved searches,
+ * applications without an update for a while and the events (interviews
+ * and deadlines) of the coming week. Sending is done by mail.ts, which runs
+ * in Node for SMTP.
+ */
+
+// Days covered by a digest
+export const DIGEST_PERIOD_DAYS = 7;
+
+// Most opportunities listed per saved search
+const MAX_DIGEST_OPPORTUNITIES = 10;
+
+// Most new opportunities checked against a user's saved searches
+const MAX_SCAN = 2000;
+
+/**
+ * Digest recipient interface
+ * A user who opted in to the digest and has an email address
+ */
+export interface DigestRecipient {
+  userId: Id<"users">;
+  email: string;
+  name?: string;
+  lastDigestAt?: number;
+}
+
+/**
+ * Digest interface
+ * Contents of one user's digest
+ */
+export interface Digest {
+  savedSearches: {
+    name: string;
+    total: number; // New matching opportunities, including ones not listed
+    opportunities: { company: string; title: string; link?: string }[];
+  }[];
+  staleApplications: {
+    company: string;
+    title: string;
+    status: string;
+    lastUpdated: number;
+  }[];
+  events: {
+    kind: Doc<"events">["kind"];
+    company: string;
+    title: string;
+    startsAt: number;
+    timeZone: string; // Time zone the event is shown in
+    videoLink?: string;
+  }[];
+}
+
+/**
+ * Lists the users who receive the digest (internal query)
+ *
+ * @returns Users who opted in and have an email address
+ */
+export const getDigestRecipients = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<DigestRecipient[]> => {
+    const users = await ctx.db
+      .query("users")
+      .withIndex("digestOptIn", (q) => q.eq("digestOptIn", true))
+      .collect();
+
+    return users
+      .filter((user) => user.email)
+      .map((user) => ({
+        userId: user._id,
+        email: user.email!,
+        name: user.name,
+        lastDigestAt: user.lastDigestAt,
+      }));
+  },
+});
+
+/**
+ * Gathers the contents of a user's digest (internal query)
+ *
+ * @param userId - Recipient of the digest
+ * @param since - Only opportunities scraped after this timestamp are new
+ * @returns The digest contents
+ */
+export const getDigest = internalQuery({
+  args: { userId: v.id("users"), since: v.number() },
+  handler: async (ctx, args): Promise<Digest> => {
+    const now = Date.now();
+
+    const savedSearches = await ctx.db
+      .query("savedSearches")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .collect();
+    const opportunities =
+      savedSearches.length === 0
+        ? []
+        : await ctx.db
+            .query("opportunities")
+            // By discovery time rather than the listing's (day-granular)
+            // date, so late-scraped postings aren't missed
+            .withIndex("by_creation_time", (q) =>
+              q.gt("_creationTime", args.since),
+            )
+            .order("desc")
+            .take(MAX_SCAN);
+
+    const applications = await ctx.db
+      .query("applications")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .collect();
+    const applicationsById = new Map(
+      applications.map((application) => [application._id, application]),
+    );
+
+    // Events of the coming digest period
+    const events = await ctx.db
+      .query("events")
+      .withIndex("by_userId_startsAt", (q) =>
+        q
+          .eq("userId", args.userId)
+          .gte("startsAt", now)
+          .lt("startsAt", now + DIGEST_PERIOD_DAYS * 24 * 60 * 60 * 1000),
+      )
+      .collect();
+
+    return {
+      savedSearches: savedSearches
+        .map((savedSearch) => {
+          const matches = opportunities.filter(
+            (opportunity) =>
+              matchesSearch(opportunity.title, savedSearch.filters.search) &&
+              matchesFilters(opportunity, savedSearch.filters),
+          );
+          return {
+            name: savedSearch.name,
+            total: matches.length,
+            opportunities: matches
+              .slice(0, MAX_DIGEST_OPPORTUNITIES)
+              .map((opportunity) => ({
+                company: opportunity.company,
+                title: opportunity.title,
+                link: opportunity.link,
+              })),
+          };
+        })
+        .filter((savedSearch) => savedSearch.total > 0),
+      staleApplications: applications
+        .filter((application) => isStaleApplication(application, now))
+        .map((application) => ({
+          company: application.company,
+          title: application.title,
+          status: application.status,
+          lastUpdated: application.lastUpdated ?? application._creationTime,
+        }))
+        .sort((a, b) => a.lastUpdated - b.lastUpdated),
+      events: events.flatMap((event) => {
+        const application = applicationsById.get(event.applicationId);
+        return application
+          ? [
+              {
+                kind: event.kind,
+                company: application.company,
+                title: application.title,
+                startsAt: event.startsAt,
+                timeZone: event.timeZone,
+                videoLink: event.videoLink,
+              },
+            ]
+          : [];
+      }),
+    };
+  },
+});
+
+/**
+ * Records that a user's digest was sent (internal mutation)
+ *
+ * The next digest only lists opportunities scraped after this.
+ *
+ * @param userId - Recipient of the digest
+ * @param sentAt - When the digest was sent
+ */
+export const recordDigestSent = internalMutation({
+  args: { userId: v.id("users"), sentAt: v.number() },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.userId, { lastDigestAt: args.sentAt });
+  },
+});
+
+/**
+ * Checks whether a digest has nothing to report
+ *
+ * @param digest - Digest contents
+ * @returns True if every section is empty
+ */
+export function isDigestEmpty(digest: Digest): boolean {
+  return (
+    digest.savedSearches.length === 0 &&
+    digest.staleApplications.length === 0 &&
+    digest.events.length === 0
+  );
+}
+
+/**
+ * Escapes text for HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Renders a digest as an email
+ *
+ * @param digest - Digest contents
+ * @param dashboardUrl - Link to the dashboard (optional)
+ * @returns Subject, plain text and HTML of the email
+ */
+export function renderDigest(
+  digest: Digest,
+  dashboardUrl?: string,
+): { subject: string; text: string; html: string } {
+  const newCount = digest.savedSearches.reduce(
+    (sum, savedSearch) => sum + savedSearch.total,
+    0,
+  );
+  const subject =
+    newCount > 0
+      ? `Your Opentern week: ${newCount} new ${newCount === 1 ? "match" : "matches"}`
+      : "Your Opentern week";
+
+  // Sections as a heading and lines of [text, link]
+  const sections: { heading: string; items: [string, string?][] }[] = [];
+  for (const savedSearch of digest.savedSearches) {
+    const more = savedSearch.total - savedSearch.opportunities.length;
+    sections.push({
+      heading: `New matches for "${savedSearch.name}" (${savedSearch.total})`,
+      items: [
+        ...savedSearch.opportunities.map((opportunity): [string, string?] => [
+          `${opportunity.company} - ${opportunity.title}`,
+          opportunity.link,
+        ]),
+        ...(more > 0 ? [[`and ${more} more`] as [string]] : []),
+      ],
+    });
+  }
+  if (digest.staleApplications.length > 0) {
+    sections.push({
+      heading: `No update in ${STALE_APPLICATION_DAYS}+ days`,
+      items: digest.staleApplications.map((application) => [
+        `${application.company} - ${application.title} (${application.status} since ${new Date(application.lastUpdated).toDateString()})`,
+      ]),
+    });
+  }
+  if (digest.events.length > 0) {
+    sections.push({
+      heading: "Coming up this week",
+      items: digest.events.map((event) => [
+        `${eventKindLabels[event.kind]}: ${event.company} - ${event.title} (${new Date(
+          event.startsAt,
+        ).toLocaleString("en-US", {
+          timeZone: event.timeZone,
+          weekday: "short",
+          month: "short",
+          day: "numeric",
+          hour: "numeric",
+          minute: "2-digit",
+          timeZoneName: "short",
+        })})`,
+        event.videoLink,
+      ]),
+    });
+  }
+
+  const text = [
+    ...sections.map(
+      (section) =>
+        `${section.heading}\n${section.items
+          .map(([item, link]) => `- ${item}${link ? `\n  ${link}` : ""}`)
+          .join("\n")}`,
+    ),
+    ...(dashboardUrl ? [`Open your dashboard: ${dashboardUrl}`] : []),
+  ].join("\n\n");
+
+  const html = [
+    ...sections.map(
+      (section) =>
+        `<h3>${escapeHtml(section.heading)}</h3><ul>${section.items
+          .map(
+            ([item, link]) =>
+              `<li>${
+                link
+                  ? `<a href="${escapeHtml(link)}">${escapeHtml(item)}</a>`
+                  : escapeHtml(item)
+              }</li>`,
+          )
+          .join("")}</ul>`,
+    ),
+    ...(dashboardUrl
+      ? [`<p><a href="${escapeHtml(dashboardUrl)}">Open your dashboard</a></p>`]
+      : []),
+  ].join("");
+
+  return { subject, text, html };
+}
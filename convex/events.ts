@@ -0,0 +1,285 @@
+import { v } from "convex/values";
+import {
+  internalQuery,
+  mutation,
+  MutationCtx,
+  query,
+} from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { eventKindUnion } from "./unions";
+
+/**
+ * Application Events
+ *
+ * This module schedules dated events on applications: phone screens, OA
+ * deadlines, onsites and offer deadlines. Events are shown as a timeline in
+ * the application popover, as an agenda on the dashboard, in the weekly
+ * digest and in the calendar export.
+ *
+ * Times are stored as UTC timestamps with the IANA time zone they were
+ * scheduled in, so an interview set for 10 AM in New York still reads
+ * 10 AM New York time when viewed from elsewhere.
+ */
+
+// Most events listed in the dashboard agenda
+const MAX_UPCOMING_EVENTS = 20;
+
+/**
+ * Checks that a time zone is set and known to the runtime
+ *
+ * @param timeZone - IANA time zone (e.g. "America/New_York")
+ * @throws If the time zone is empty or invalid
+ */
+function validateTimeZone(timeZone: string): void {
+  if (!timeZone) {
+    throw new Error("Event time zone is required!");
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new Error("Invalid time zone!");
+  }
+}
+
+/**
+ * Trims a video link and checks that it's a web URL
+ *
+ * @param videoLink - Video call URL as entered
+ * @returns Trimmed URL, or undefined if empty
+ * @throws If the link isn't an http(s) URL
+ */
+function normalizeVideoLink(videoLink: string): string | undefined {
+  const trimmed = videoLink.trim();
+  if (!trimmed) return undefined;
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error("Invalid video link!");
+  }
+  if (
+    (url.protocol !== "http:" && url.protocol !== "https:") ||
+    /\s/.test(trimmed)
+  ) {
+    throw new Error("Invalid video link!");
+  }
+  return trimmed;
+}
+
+/**
+ * Retrieves every event of the authenticated user
+ *
+ * The popover timelines all share this one subscription and pick their
+ * application's events from it.
+ *
+ * @returns Events ordered by start time (earliest first)
+ */
+export const getEvents = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("events")
+      .withIndex("by_userId_startsAt", (q) => q.eq("userId", userId))
+      .collect();
+  },
+});
+
+/**
+ * Retrieves the authenticated user's next events with their applications
+ *
+ * @returns Upcoming events (earliest first) with company and title
+ */
+export const getUpcomingEvents = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return [];
+    }
+
+    const events = await ctx.db
+      .query("events")
+      .withIndex("by_userId_startsAt", (q) =>
+        q.eq("userId", userId).gte("startsAt", Date.now()),
+      )
+      .take(MAX_UPCOMING_EVENTS);
+
+    return await Promise.all(
+      events.map(async (event) => {
+        const application = await ctx.db.get(event.applicationId);
+        return {
+          ...event,
+          company: application?.company ?? "",
+          title: application?.title ?? "",
+        };
+      }),
+    );
+  },
+});
+
+/**
+ * Retrieves every event of a user (internal query)
+ *
+ * Used by the calendar export and the weekly digest.
+ *
+ * @param userId - ID of the user whose events to fetch
+ * @returns Events ordered by start time (earliest first)
+ */
+export const getUserEvents = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("events")
+      .withIndex("by_userId_startsAt", (q) => q.eq("userId", args.userId))
+      .collect();
+  },
+});
+
+/**
+ * Schedules an event on an application
+ *
+ * @param applicationId - Application the event belongs to
+ * @param kind - Kind of event
+ * @param startsAt - When the event starts or the deadline falls (UTC timestamp)
+ * @param timeZone - IANA time zone the event was scheduled in
+ * @param location - Address or room (optional)
+ * @param videoLink - Video call URL, http(s) only (optional)
+ * @param notes - Notes about the event (optional)
+ * @returns The ID of the created event
+ */
+export const createEvent = mutation({
+  args: {
+    applicationId: v.id("applications"),
+    kind: eventKindUnion,
+    startsAt: v.number(),
+    timeZone: v.string(),
+    location: v.optional(v.string()),
+    videoLink: v.optional(v.string()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    // Verify the application exists and belongs to the user
+    const application = await ctx.db.get(args.applicationId);
+    if (application?.userId !== userId) {
+      throw new Error("Client is not authorized to update this application!");
+    }
+
+    validateTimeZone(args.timeZone);
+
+    return await ctx.db.insert("events", {
+      userId,
+      applicationId: args.applicationId,
+      kind: args.kind,
+      startsAt: args.startsAt,
+      timeZone: args.timeZone,
+      location: args.location?.trim() || undefined,
+      videoLink:
+        args.videoLink === undefined
+          ? undefined
+          : normalizeVideoLink(args.videoLink),
+      notes: args.notes?.trim() || undefined,
+    });
+  },
+});
+
+/**
+ * Updates event details
+ *
+ * @param id - Event ID to update
+ * @param kind - New kind (optional)
+ * @param startsAt - New start time (optional)
+ * @param timeZone - New time zone (optional)
+ * @param location - New location, empty to clear (optional)
+ * @param videoLink - New video link, empty to clear (optional)
+ * @param notes - New notes, empty to clear (optional)
+ */
+export const updateEvent = mutation({
+  args: {
+    id: v.id("events"),
+    kind: v.optional(eventKindUnion),
+    startsAt: v.optional(v.number()),
+    timeZone: v.optional(v.string()),
+    location: v.optional(v.string()),
+    videoLink: v.optional(v.string()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    // Verify the event exists and belongs to the user
+    const event = await ctx.db.get(args.id);
+    if (event?.userId !== userId) {
+      throw new Error("Client is not authorized to update this event!");
+    }
+
+    if (args.timeZone !== undefined) {
+      validateTimeZone(args.timeZone);
+    }
+
+    // Build update object with only provided fields
+    const { id, location, videoLink, notes, ...fields } = args;
+    await ctx.db.patch(id, {
+      ...fields,
+      ...(location !== undefined && { location: location.trim() || undefined }),
+      ...(videoLink !== undefined && {
+        videoLink: normalizeVideoLink(videoLink),
+      }),
+      ...(notes !== undefined && { notes: notes.trim() || undefined }),
+    });
+  },
+});
+
+/**
+ * Deletes an event
+ *
+ * @param id - Event ID to delete
+ */
+export const deleteEvent = mutation({
+  args: { id: v.id("events") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    // Verify the event exists and belongs to the user
+    const event = await ctx.db.get(args.id);
+    if (event?.userId !== userId) {
+      throw new Error("Client is not authorized to delete this event!");
+    }
+
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Deletes every event of an application, e.g. when it is deleted
+ *
+ * @param ctx - Mutation context
+ * @param applicationId - Application whose events to delete
+ */
+export async function deleteApplicationEvents(
+  ctx: MutationCtx,
+  applicationId: Id<"applications">,
+): Promise<void> {
+  const events = await ctx.db
+    .query("events")
+    .withIndex("by_applicationId", (q) => q.eq("applicationId", applicationId))
+    .collect();
+  await Promise.all(events.map((event) => ctx.db.delete(event._id)));
+}
@@ -0,0 +1,323 @@
+import { v } from "convex/values";
+import { action, httpAction } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { getStatusHistory } from "./history";
+import { eventKindLabels } from "./unions";
+
+/**
+ * Data Export Functionality
+ *
+ * This module serializes a user's applications so they can be backed up or
+ * moved to another tool. Supported formats:
+ * - CSV: columns recognized by the importer, so exports round-trip
+ * - JSON: full records including status history and timestamps
+ * - iCalendar (.ics): dated events such as status changes and scheduled
+ *   interviews and deadlines, available as a download or as a subscribable
+ *   feed URL
+ */
+
+// Length of scheduled events in the calendar export (ISO 8601 duration)
+const EVENT_DURATION = "PT1H";
+
+/**
+ * Escapes a value for a CSV cell
+ *
+ * Values containing commas, quotes, line breaks or surrounding whitespace
+ * are wrapped in quotes, with embedded quotes doubled.
+ *
+ * @param value - Cell value
+ * @returns CSV-safe cell string
+ */
+function escapeCsv(value: string): string {
+  if (/[",\r\n]/.test(value) || value.trim() !== value) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Formats a timestamp as an ISO (YYYY-MM-DD) date
+ */
+function toIsoDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Serializes applications to CSV
+ *
+ * Header names match the import column detection (Company, Title, Status,
+ * Link, Notes), so an exported file can be imported again as-is. "Created"
+ * and "Modified" are informational and ignored on import.
+ *
+ * @param applications - Applications to serialize
+ * @returns CSV text with a header row
+ */
+function toCsv(applications: Doc<"applications">[]): string {
+  const header = [
+    "Company",
+    "Title",
+    "Status",
+    "Link",
+    "Notes",
+    "Created",
+    "Modified",
+  ];
+  const rows = applications.map((application) => [
+    application.company,
+    application.title,
+    application.status,
+    application.link ?? "",
+    application.notes ?? "",
+    toIsoDate(application._creationTime),
+    toIsoDate(application.lastUpdated ?? application._creationTime),
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(escapeCsv).join(","))
+    .join("\r\n");
+}
+
+/**
+ * Serializes applications to JSON
+ *
+ * Includes the full status history and all timestamps (as ISO strings).
+ * Internal IDs are omitted except the linked opportunity.
+ *
+ * @param applications - Applications to serialize
+ * @returns Pretty-printed JSON text
+ */
+function toJson(applications: Doc<"applications">[]): string {
+  return JSON.stringify(
+    {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      applications: applications.map((application) => ({
+        company: application.company,
+        title: application.title,
+        status: application.status,
+        link: application.link,
+        dashboardLink: application.dashboardLink,
+        notes: application.notes,
+        opportunityId: application.opportunityId,
+        createdAt: new Date(application._creationTime).toISOString(),
+        lastUpdated: application.lastUpdated
+          ? new Date(application.lastUpdated).toISOString()
+          : undefined,
+        statusHistory: getStatusHistory(application).map((entry) => ({
+          status: entry.status,
+          at: new Date(entry.at).toISOString(),
+          note: entry.note,
+        })),
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Escapes a value for an iCalendar text property
+ */
+function escapeIcs(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Checks whether a link can be written as an iCalendar URI value
+ *
+ * URIs aren't escaped like text, so links with whitespace (which could
+ * start a new content line) are left out.
+ */
+function isIcsUri(value: string): boolean {
+  return /^https?:\/\/\S+$/i.test(value);
+}
+
+/**
+ * Folds an iCalendar content line to at most 75 characters per line
+ */
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push((i === 0 ? "" : " ") + line.slice(i, i + 74));
+  }
+  return parts.join("\r\n");
+}
+
+/**
+ * Formats a timestamp as an iCalendar UTC date-time (YYYYMMDDTHHMMSSZ)
+ */
+function toIcsDateTime(timestamp: number): string {
+  return (
+    new Date(timestamp).toISOString().replace(/[-:]/g, "").slice(0, 15) + "Z"
+  );
+}
+
+/**
+ * Serializes the dated events of applications to iCalendar
+ *
+ * Every status history entry becomes an all-day event on the day the
+ * status was entered (e.g. "Applied: Stripe – SWE Intern"). Scheduled
+ * events (see events.ts) become timed events (e.g. "Onsite: Stripe – SWE
+ * Intern") lasting `EVENT_DURATION`, as events have no end time.
+ *
+ * @param applications - Applications to serialize
+ * @param scheduled - Scheduled events of the applications
+ * @returns iCalendar text
+ */
+function toIcs(
+  applications: Doc<"applications">[],
+  scheduled: Doc<"events">[],
+): string {
+  const stamp = toIcsDateTime(Date.now());
+  const applicationsById = new Map(
+    applications.map((application) => [application._id, application]),
+  );
+  const statusEvents = applications.flatMap((application) =>
+    getStatusHistory(application).map((entry) => {
+      const label =
+        entry.status.charAt(0).toUpperCase() + entry.status.slice(1);
+      return [
+        "BEGIN:VEVENT",
+        `UID:${application._id}-${entry.status}-${entry.at}@opentern`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${toIsoDate(entry.at).replace(/-/g, "")}`,
+        `SUMMARY:${escapeIcs(`${label}: ${application.company} – ${application.title}`)}`,
+        ...(entry.note ? [`DESCRIPTION:${escapeIcs(entry.note)}`] : []),
+        ...(application.link && isIcsUri(application.link)
+          ? [`URL:${application.link}`]
+          : []),
+        "END:VEVENT",
+      ];
+    }),
+  );
+  const scheduledEvents = scheduled.flatMap((event) => {
+    const application = applicationsById.get(event.applicationId);
+    if (!application) return [];
+    return [
+      [
+        "BEGIN:VEVENT",
+        `UID:${event._id}@opentern`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${toIcsDateTime(event.startsAt)}`,
+        `DURATION:${EVENT_DURATION}`,
+        `SUMMARY:${escapeIcs(`${eventKindLabels[event.kind]}: ${application.company} – ${application.title}`)}`,
+        ...(event.location ? [`LOCATION:${escapeIcs(event.location)}`] : []),
+        ...(event.notes ? [`DESCRIPTION:${escapeIcs(event.notes)}`] : []),
+        ...(event.videoLink && isIcsUri(event.videoLink)
+          ? [`URL:${event.videoLink}`]
+          : []),
+        "END:VEVENT",
+      ],
+    ];
+  });
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Opentern//Applications//EN",
+    "CALSCALE:GREGORIAN",
+    "X-WR-CALNAME:Opentern",
+    ...statusEvents.flat(),
+    ...scheduledEvents.flat(),
+    "END:VCALENDAR",
+  ]
+    .map(foldIcsLine)
+    .join("\r\n");
+}
+
+/**
+ * Exports the authenticated user's applications
+ *
+ * @param format - Output format ("csv", "json" or "ics")
+ * @returns File name, MIME type and file content for download
+ */
+export const exportApplications = action({
+  args: {
+    format: v.union(v.literal("csv"), v.literal("json"), v.literal("ics")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    const applications: Doc<"applications">[] = await ctx.runQuery(
+      internal.applications.getUserApplications,
+      { userId },
+    );
+    const date = toIsoDate(Date.now());
+
+    switch (args.format) {
+      case "csv":
+        return {
+          fileName: `opentern-applications-${date}.csv`,
+          mimeType: "text/csv",
+          content: toCsv(applications),
+        };
+      case "json":
+        return {
+          fileName: `opentern-applications-${date}.json`,
+          mimeType: "application/json",
+          content: toJson(applications),
+        };
+      case "ics": {
+        const events: Doc<"events">[] = await ctx.runQuery(
+          internal.events.getUserEvents,
+          { userId },
+        );
+        return {
+          fileName: `opentern-applications-${date}.ics`,
+          mimeType: "text/calendar",
+          content: toIcs(applications, events),
+        };
+      }
+    }
+  },
+});
+
+/**
+ * Serves a user's application events as a subscribable iCalendar feed
+ *
+ * Calendar apps can't sign in, so the feed is authorized by the secret
+ * token in the `token` query parameter (see `users.createCalendarToken`).
+ *
+ * @returns iCalendar response, or 404 for unknown tokens
+ */
+export const calendarFeed = httpAction(async (ctx, request) => {
+  const token = new URL(request.url).searchParams.get("token");
+  if (!token) {
+    return new Response("Missing token", { status: 400 });
+  }
+
+  const user: Doc<"users"> | null = await ctx.runQuery(
+    internal.users.getUserByCalendarToken,
+    {
+      token,
+    },
+  );
+  if (user === null) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const applications: Doc<"applications">[] = await ctx.runQuery(
+    internal.applications.getUserApplications,
+    { userId: user._id },
+  );
+
+  const events: Doc<"events">[] = await ctx.runQuery(
+    internal.events.getUserEvents,
+    { userId: user._id },
+  );
+
+  return new Response(toIcs(applications, events), {
+    status: 200,
+    headers: { "Content-Type": "text/calendar; charset=utf-8" },
+  });
+});
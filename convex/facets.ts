@@ -0,0 +1,117 @@
+import { Infer } from "convex/values";
+import { MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { getLocationLabel, parseLocations } from "./locationParser";
+import { opportunityFacetUnion } from "./unions";
+
+/**
+ * Opportunity Facet Counts
+ *
+ * This module keeps the `opportunityFacets` table in step with the
+ * opportunities table, so the opportunities filter can show how many open,
+ * fresh postings have each location, work mode, term, sponsorship
+ * requirement and degree level without reading every posting.
+ *
+ * Every write that changes an opportunity's state or details passes the
+ * opportunity before and after the change to `countOpportunityFacets`.
+ */
+
+type OpportunityFacet = Infer<typeof opportunityFacetUnion>;
+
+/**
+ * Lists the facet values an opportunity counts towards
+ *
+ * Only open, fresh opportunities are counted, matching the default
+ * opportunities view. Each counts once per location and work mode.
+ *
+ * @param opportunity - Opportunity to count
+ * @returns Facet values, empty for closed or stale opportunities
+ */
+function getFacetValues(
+  opportunity: Doc<"opportunities">,
+): { facet: OpportunityFacet; value: string }[] {
+  // Opportunities without state (before migration) count as open and fresh
+  if (!(opportunity.isOpen ?? true) || (opportunity.isStale ?? false)) {
+    return [];
+  }
+
+  const locations =
+    opportunity.locations ?? parseLocations(opportunity.location);
+  const labels = new Set(
+    locations
+      .filter((entry) => entry.city || entry.region || entry.country)
+      .map(getLocationLabel),
+  );
+  const workModes = new Set(locations.map((entry) => entry.mode));
+
+  return [
+    ...[...labels].map((value) => ({ facet: "location" as const, value })),
+    ...[...workModes].map((value) => ({ facet: "workMode" as const, value })),
+    ...(opportunity.term
+      ? [{ facet: "term" as const, value: opportunity.term }]
+      : []),
+    ...(opportunity.sponsorship
+      ? [{ facet: "sponsorship" as const, value: opportunity.sponsorship }]
+      : []),
+    ...(opportunity.degreeLevel
+      ? [{ facet: "degreeLevel" as const, value: opportunity.degreeLevel }]
+      : []),
+    ...(opportunity.isFaang
+      ? [{ facet: "faang" as const, value: "true" }]
+      : []),
+  ];
+}
+
+/**
+ * Updates the facet counts for a change to an opportunity
+ *
+ * Values the opportunity stops counting towards are decremented and new
+ * ones incremented; values whose count drops to zero are removed.
+ *
+ * @param ctx - Mutation context
+ * @param before - Opportunity before the change (null when inserted)
+ * @param after - Opportunity after the change (null when deleted)
+ */
+export async function countOpportunityFacets(
+  ctx: MutationCtx,
+  before: Doc<"opportunities"> | null,
+  after: Doc<"opportunities"> | null,
+): Promise<void> {
+  const deltas = new Map<
+    string,
+    { facet: OpportunityFacet; value: string; delta: number }
+  >();
+  const tally = (opportunity: Doc<"opportunities"> | null, delta: number) => {
+    if (!opportunity) return;
+    for (const { facet, value } of getFacetValues(opportunity)) {
+      const key = `${facet}|${value}`;
+      const entry = deltas.get(key) ?? { facet, value, delta: 0 };
+      entry.delta += delta;
+      deltas.set(key, entry);
+    }
+  };
+  tally(before, -1);
+  tally(after, 1);
+
+  for (const { facet, value, delta } of deltas.values()) {
+    if (delta === 0) continue;
+
+    const existing = await ctx.db
+      .query("opportunityFacets")
+      .withIndex("by_facet_value", (q) =>
+        q.eq("facet", facet).eq("value", value),
+      )
+      .unique();
+    const count = (existing?.count ?? 0) + delta;
+
+    if (!existing) {
+      if (count > 0) {
+        await ctx.db.insert("opportunityFacets", { facet, value, count });
+      }
+    } else if (count > 0) {
+      await ctx.db.patch(existing._id, { count });
+    } else {
+      await ctx.db.delete(existing._id);
+    }
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Offline Gazetteer
+ *
+ * This module bundles the places the location parser recognizes (see
+ * locationParser.ts): U.S. states, Canadian provinces, countries and the
+ * cities that show up in internship lists, each with common aliases. It is
+ * plain data so no geocoding service is needed; unknown places are kept as
+ * written.
+ */
+
+/**
+ * Region interface
+ * A U.S. state (or D.C.) or a Canadian province
+ */
+export interface Region {
+  code: string; // Postal abbreviation (e.g. "CA")
+  name: string;
+  country: string;
+}
+
+/**
+ * City interface
+ * A city with its region (if any) and country
+ */
+export interface City {
+  name: string;
+  region?: string; // Region code
+  country: string;
+  aliases?: string[];
+}
+
+/**
+ * Country interface
+ */
+export interface Country {
+  name: string;
+  aliases: string[];
+}
+
+export const COUNTRIES: Country[] = [
+  {
+    name: "United States",
+    aliases: [
+      "US",
+      "USA",
+      "U.S.",
+      "U.S.A.",
+      "United States of America",
+      "America",
+    ],
+  },
+  { name: "Canada", aliases: [] },
+  {
+    name: "United Kingdom",
+    aliases: ["UK", "U.K.", "England", "Great Britain", "Scotland"],
+  },
+  { name: "Ireland", aliases: [] },
+  { name: "Germany", aliases: [] },
+  { name: "France", aliases: [] },
+  { name: "Netherlands", aliases: ["The Netherlands", "Holland"] },
+  { name: "Switzerland", aliases: [] },
+  { name: "Spain", aliases: [] },
+  { name: "Poland", aliases: [] },
+  { name: "Sweden", aliases: [] },
+  { name: "Israel", aliases: [] },
+  { name: "India", aliases: [] },
+  { name: "Singapore", aliases: [] },
+  { name: "Japan", aliases: [] },
+  { name: "China", aliases: [] },
+  { name: "Hong Kong", aliases: [] },
+  { name: "Taiwan", aliases: [] },
+  { name: "South Korea", aliases: ["Korea"] },
+  { name: "Australia", aliases: [] },
+  { name: "Mexico", aliases: [] },
+  { name: "Brazil", aliases: [] },
+];
+
+const US = "United States";
+const CANADA = "Canada";
+
+export const REGIONS: Region[] = [
+  { code: "AL", name: "Alabama", country: US },
+  { code: "AK", name: "Alaska", country: US },
+  { code: "AZ", name: "Arizona", country: US },
+  { code: "AR", name: "Arkansas", country: US },
+  { code: "CA", name: "California", country: US },
+  { code: "CO", name: "Colorado", country: US },
+  { code: "CT", name: "Connecticut", country: US },
+  { code: "DE", name: "Delaware", country: US },
+  { code: "DC", name: "District of Columbia", country: US },
+  { code: "FL", name: "Florida", country: US },
+  { code: "GA", name: "Georgia", country: US },
+  { code: "HI", name: "Hawaii", country: US },
+  { code: "ID", name: "Idaho", country: US },
+  { code: "IL", name: "Illinois", country: US },
+  { code: "IN", name: "Indiana", country: US },
+  { code: "IA", name: "Iowa", country: US },
+  { code: "KS", name: "Kansas", country: US },
+  { code: "KY", name: "Kentucky", country: US },
+  { code: "LA", name: "Louisiana", country: US },
+  { code: "ME", name: "Maine", country: US },
+  { code: "MD", name: "Maryland", country: US },
+  { code: "MA", name: "Massachusetts", country: US },
+  { code: "MI", name: "Michigan", country: US },
+  { code: "MN", name: "Minnesota", country: US },
+  { code: "MS", name: "Mississippi", country: US },
+  { code: "MO", name: "Missouri", country: US },
+  { code: "MT", name: "Montana", country: US },
+  { code: "NE", name: "Nebraska", country: US },
+  { code: "NV", name: "Nevada", country: US },
+  { code: "NH", name: "New Hampshire", country: US },
+  { code: "NJ", name: "New Jersey", country: US },
+  { code: "NM", name: "New Mexico", country: US },
+  { code: "NY", name: "New York", country: US },
+  { code: "NC", name: "North Carolina", country: US },
+  { code: "ND", name: "North Dakota", country: US },
+  { code: "OH", name: "Ohio", country: US },
+  { code: "OK", name: "Oklahoma", country: US },
+  { code: "OR", name: "Oregon", country: US },
+  { code: "PA", name: "Pennsylvania", country: US },
+  { code: "RI", name: "Rhode Island", country: US },
+  { code: "SC", name: "South Carolina", country: US },
+  { code: "SD", name: "South Dakota", country: US },
+  { code: "TN", name: "Tennessee", country: US },
+  { code: "TX", name: "Texas", country: US },
+  { code: "UT", name: "Utah", country: US },
+  { code: "VT", name: "Vermont", country: US },
+  { code: "VA", name: "Virginia", country: US },
+  { code: "WA", name: "Washington", country: US },
+  { code: "WV", name: "West Virginia", country: US },
+  { code: "WI", name: "Wisconsin", country: US },
+  { code: "WY", name: "Wyoming", country: US },
+  { code: "AB", name: "Alberta", country: CANADA },
+  { code: "BC", name: "British Columbia", country: CANADA },
+  { code: "MB", name: "Manitoba", country: CANADA },
+  { code: "NB", name: "New Brunswick", country: CANADA },
+  { code: "NL", name: "Newfoundland and Labrador", country: CANADA },
+  { code: "NS", name: "Nova Scotia", country: CANADA },
+  { code: "ON", name: "Ontario", country: CANADA },
+  { code: "PE", name: "Prince Edward Island", country: CANADA },
+  { code: "QC", name: "Quebec", country: CANADA },
+  { code: "SK", name: "Saskatchewan", country: CANADA },
+];
+
+export const CITIES: City[] = [
+  // United States
+  {
+    name: "New York",
+    region: "NY",
+    country: US,
+    aliases: ["NYC", "New York City", "Manhattan", "Brooklyn"],
+  },
+  {
+    name: "San Francisco",
+    region: "CA",
+    country: US,
+    aliases: ["SF", "San Fran"],
+  },
+  { name: "Los Angeles", region: "CA", country: US, aliases: ["LA"] },
+  { name: "San Jose", region: "CA", country: US },
+  { name: "Mountain View", region: "CA", country: US },
+  { name: "Palo Alto", region: "CA", country: US },
+  { name: "Menlo Park", region: "CA", country: US },
+  { name: "Sunnyvale", region: "CA", country: US },
+  { name: "Santa Clara", region: "CA", country: US },
+  { name: "Cupertino", region: "CA", country: US },
+  { name: "Redwood City", region: "CA", country: US },
+  { name: "San Mateo", region: "CA", country: US },
+  { name: "Oakland", region: "CA", country: US },
+  { name: "Berkeley", region: "CA", country: US },
+  { name: "San Diego", region: "CA", country: US },
+  { name: "Irvine", region: "CA", country: US },
+  { name: "Santa Monica", region: "CA", country: US },
+  { name: "Seattle", region: "WA", country: US },
+  { name: "Redmond", region: "WA", country: US },
+  { name: "Bellevue", region: "WA", country: US },
+  { name: "Kirkland", region: "WA", country: US },
+  { name: "Austin", region: "TX", country: US },
+  { name: "Dallas", region: "TX", country: US },
+  { name: "Houston", region: "TX", country: US },
+  { name: "San Antonio", region: "TX", country: US },
+  { name: "Plano", region: "TX", country: US },
+  { name: "Boston", region: "MA", country: US },
+  { name: "Cambridge", region: "MA", country: US },
+  { name: "Chicago", region: "IL", country: US },
+  { name: "Atlanta", region: "GA", country: US },
+  { name: "Denver", region: "CO", country: US },
+  { name: "Boulder", region: "CO", country: US },
+  {
+    name: "Washington",
+    region: "DC",
+    country: US,
+    aliases: ["Washington DC", "Washington D.C.", "D.C."],
+  },
+  { name: "Arlington", region: "VA", country: US },
+  { name: "McLean", region: "VA", country: US },
+  { name: "Reston", region: "VA", country: US },
+  { name: "Philadelphia", region: "PA", country: US },
+  { name: "Pittsburgh", region: "PA", country: US },
+  { name: "Miami", region: "FL", country: US },
+  { name: "Orlando", region: "FL", country: US },
+  { name: "Tampa", region: "FL", country: US },
+  { name: "Minneapolis", region: "MN", country: US },
+  { name: "Detroit", region: "MI", country: US },
+  { name: "Ann Arbor", region: "MI", country: US },
+  { name: "Columbus", region: "OH", country: US },
+  { name: "Raleigh", region: "NC", country: US },
+  { name: "Durham", region: "NC", country: US },
+  { name: "Charlotte", region: "NC", country: US },
+  { name: "Nashville", region: "TN", country: US },
+  { name: "Phoenix", region: "AZ", country: US },
+  { name: "Salt Lake City", region: "UT", country: US },
+  { name: "Portland", region: "OR", country: US },
+  { name: "Jersey City", region: "NJ", country: US },
+  { name: "Newark", region: "NJ", country: US },
+  { name: "Baltimore", region: "MD", country: US },
+  { name: "St. Louis", region: "MO", country: US, aliases: ["Saint Louis"] },
+  { name: "Kansas City", region: "MO", country: US },
+  { name: "Madison", region: "WI", country: US },
+  { name: "Indianapolis", region: "IN", country: US },
+  // Canada
+  { name: "Toronto", region: "ON", country: CANADA },
+  { name: "Waterloo", region: "ON", country: CANADA },
+  { name: "Ottawa", region: "ON", country: CANADA },
+  { name: "Vancouver", region: "BC", country: CANADA },
+  { name: "Montreal", region: "QC", country: CANADA, aliases: ["Montréal"] },
+  { name: "Calgary", region: "AB", country: CANADA },
+  // Elsewhere
+  { name: "London", country: "United Kingdom" },
+  { name: "Dublin", country: "Ireland" },
+  { name: "Paris", country: "France" },
+  { name: "Berlin", country: "Germany" },
+  { name: "Munich", country: "Germany" },
+  { name: "Amsterdam", country: "Netherlands" },
+  { name: "Zurich", country: "Switzerland", aliases: ["Zürich"] },
+  { name: "Tel Aviv", country: "Israel" },
+  { name: "Bangalore", country: "India", aliases: ["Bengaluru"] },
+  { name: "Hyderabad", country: "India" },
+  { name: "Tokyo", country: "Japan" },
+  { name: "Sydney", country: "Australia" },
+];
@@ -0,0 +1,59 @@
+import { Infer } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { historyEntry } from "./unions";
+
+/**
+ * Status History Helpers
+ *
+ * Shared helpers for reading and normalizing an application's timestamped
+ * status history. Used by both Convex functions and UI components so the
+ * ordering rules live in one place.
+ *
+ * Ordering:
+ * - Entries are stored newest first
+ * - The first entry always matches the application's current status
+ */
+
+export type HistoryEntry = Infer<typeof historyEntry>;
+
+/**
+ * Sorts history entries newest first
+ *
+ * Sorting is stable, so entries sharing a timestamp keep their relative order.
+ *
+ * @param entries - History entries in any order
+ * @returns A new array sorted by timestamp (newest first)
+ */
+export function sortHistory(entries: HistoryEntry[]): HistoryEntry[] {
+  return [...entries].sort((a, b) => b.at - a.at);
+}
+
+/**
+ * Returns the timestamped status history for an application
+ *
+ * Applications created before timestamped history existed only have the
+ * legacy `history` array of bare statuses. Those are converted on the fly:
+ * the current status is dated to the last update, and earlier statuses
+ * to the application's creation time.
+ *
+ * @param application - The application to read history from
+ * @returns History entries, newest first, starting with the current status
+ */
+export function getStatusHistory(
+  application: Doc<"applications">,
+): HistoryEntry[] {
+  if (application.statusHistory !== undefined) {
+    return application.statusHistory;
+  }
+
+  return [
+    {
+      status: application.status,
+      at: application.lastUpdated ?? application._creationTime,
+    },
+    ...(application.history ?? []).map((status) => ({
+      status,
+      at: application._creationTime,
+    })),
+  ];
+}
@@ -1,6 +1,7 @@
 import { httpRouter } from "convex/server";
 import { auth } from "./auth";
 import { api } from "./_generated/api";
+import { calendarFeed } from "./export";
 
 /**
  * HTTP Router Configuration
@@ -10,6 +11,7 @@ import { api } from "./_generated/api";
  *
  * Routes:
  * - Authentication routes (sign in, sign out, callbacks)
+ * - Calendar feed of application events (/calendar.ics)
  * - Webhook endpoints for external services
  * - API endpoints for external integrations
  */
@@ -18,4 +20,11 @@ const http = httpRouter();
 // Register authentication routes (sign in, sign out, OAuth callbacks)
 auth.addHttpRoutes(http);
 
+// Subscribable iCalendar feed, authorized by a per-user token
+http.route({
+  path: "/calendar.ics",
+  method: "GET",
+  handler: calendarFeed,
+});
+
 export default http;
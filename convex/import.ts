@@ -1,17 +1,29 @@
-import { action, mutation } from "./_generated/server";
+import { action, ActionCtx, mutation } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { internal } from "./_generated/api";
+import { readSheet } from "read-excel-file/universal";
+import { Infer } from "convex/values";
+import { duplicateActionUnion, statusUnion } from "./unions";
 
 /**
  * Data Import Functionality
  *
  * This module handles importing job application data from various sources.
- * Supports parsing tab-separated data (TSV) with automatic column detection
- * and status normalization. Used for bulk importing applications from
- * spreadsheets, CSV files, or other data sources.
+ * Supports parsing comma-separated (CSV, with quoted fields), tab-separated
+ * (TSV), Excel (XLSX) and JSON data with automatic column detection and status
+ * normalization. Used for bulk importing applications from pasted
+ * spreadsheets or uploaded files. Rows matching an existing application
+ * can be skipped, merged into it, or imported as new.
+ *
+ * Exports from other trackers (Simplify, Huntr, Teal) are recognized by
+ * their headers and parsed with their own column names and stage names.
  */
 
+// Maximum accepted size of an uploaded import file (5 MB)
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
 /**
  * Interface for parsed application data
  * Represents a single job application after parsing from raw data
@@ -21,9 +33,13 @@ interface ParsedApplication {
   title: string;
   link?: string;
   notes?: string;
-  status?: string;
+  status: ApplicationStatus;
 }
 
+type ApplicationStatus = Infer<typeof statusUnion>;
+
+type DuplicateAction = Infer<typeof duplicateActionUnion>;
+
 /**
  * Column mapping interface
  * Maps column indices to field names for flexible data parsing
@@ -37,6 +53,171 @@ interface ColumnMapping {
   notes?: number;
 }
 
+/**
+ * Column mapping validator
+ * Mirrors ColumnMapping so clients can send back an edited mapping
+ */
+const columnMappingValidator = v.object({
+  company: v.optional(v.number()),
+  title: v.optional(v.number()),
+  status: v.optional(v.number()),
+  link: v.optional(v.number()),
+  date: v.optional(v.number()),
+  notes: v.optional(v.number()),
+});
+
+/**
+ * Status overrides validator
+ * Raw statuses are sent as values rather than object keys, since Convex
+ * field names must be ASCII and statuses can contain accents or emoji
+ */
+const statusOverridesValidator = v.array(
+  v.object({ raw: v.string(), status: statusUnion }),
+);
+
+/**
+ * Tracker format interface
+ * Describes the export of another application tracker: how to recognize it,
+ * which headers hold each field and how its stages map to our statuses.
+ * Headers and stage names are compared after `normalizeLabel`.
+ */
+interface TrackerFormat {
+  id: "simplify" | "huntr" | "teal";
+  label: string;
+  detect: (headers: Set<string>) => boolean; // Whether the headers match this format
+  columns: Record<keyof ColumnMapping, string[]>; // Candidate headers per field, in priority order
+  stages: Record<string, ApplicationStatus>; // Tracker stage name -> status
+}
+
+/**
+ * Supported tracker export formats, checked in order
+ *
+ * Huntr JSON exports nest the company as `employer.name`, which flattens to
+ * the "employer name" header (see `parseJsonRows`).
+ */
+const TRACKER_FORMATS: TrackerFormat[] = [
+  {
+    id: "teal",
+    label: "Teal",
+    detect: (headers) =>
+      headers.has("excitement") ||
+      (headers.has("job position") && headers.has("date saved")),
+    columns: {
+      company: ["company", "company name"],
+      title: ["job position", "position", "job title"],
+      status: ["status"],
+      link: ["job url", "url", "job link"],
+      date: ["date applied", "date saved"],
+      notes: ["notes", "note"],
+    },
+    stages: {
+      bookmarked: "interested",
+      applying: "interested",
+      applied: "applied",
+      "no response": "applied",
+      interviewing: "interviewed",
+      negotiating: "offered",
+      accepted: "offered",
+      "not selected": "rejected",
+      "i withdrew": "archived",
+      withdrew: "archived",
+      archived: "archived",
+    },
+  },
+  {
+    id: "huntr",
+    label: "Huntr",
+    detect: (headers) =>
+      (headers.has("list") || headers.has("list name")) &&
+      (headers.has("employer") ||
+        headers.has("employer name") ||
+        headers.has("company")),
+    columns: {
+      company: ["employer name", "employer", "company"],
+      title: ["title", "job title", "position"],
+      status: ["list name", "list", "stage"],
+      link: ["url", "job url", "job link"],
+      date: ["date applied", "applied date", "date added", "created at"],
+      notes: ["notes", "note"],
+    },
+    stages: {
+      wishlist: "interested",
+      applied: "applied",
+      "phone screen": "interviewed",
+      interview: "interviewed",
+      interviewing: "interviewed",
+      "on site": "interviewed",
+      onsite: "interviewed",
+      offer: "offered",
+      accepted: "offered",
+      rejected: "rejected",
+      withdrawn: "archived",
+    },
+  },
+  {
+    id: "simplify",
+    label: "Simplify",
+    detect: (headers) =>
+      [...headers].some((header) => header.includes("simplify")) ||
+      (headers.has("company name") && headers.has("job title")),
+    columns: {
+      company: ["company name", "company"],
+      title: ["job title", "position", "title"],
+      status: ["status", "application status"],
+      link: ["job url", "job link", "url", "simplify url"],
+      date: ["date applied", "applied date", "date saved"],
+      notes: ["notes", "note"],
+    },
+    stages: {
+      saved: "interested",
+      applied: "applied",
+      ghosted: "applied",
+      "online assessment": "assessment",
+      oa: "assessment",
+      screen: "interviewed",
+      "phone screen": "interviewed",
+      interviewing: "interviewed",
+      offer: "offered",
+      accepted: "offered",
+      rejected: "rejected",
+      withdrawn: "archived",
+    },
+  },
+];
+
+/**
+ * Parsed row interface
+ * A single data row after parsing, with any problems found along the way.
+ * `application` is null when the row will be skipped.
+ */
+interface ParsedRow {
+  row: number; // 1-based row number in the source data (header is row 1)
+  application: ParsedApplication | null;
+  warnings: string[];
+  duplicate?: {
+    // Existing application this row matches, if any
+    id: Id<"applications">;
+    company: string;
+    title: string;
+    status: ApplicationStatus;
+  };
+  repeatOf?: number; // Earlier row of the same import this row repeats, if any
+}
+
+/**
+ * Parsed import interface
+ * Everything a preview needs: headers, the mapping used, per-row results,
+ * and the distinct raw status values with the status each maps to
+ */
+interface ParsedImport {
+  headers: string[];
+  format: { id: TrackerFormat["id"]; label: string } | null; // Detected tracker export, if any
+  mapping: ColumnMapping;
+  warnings: string[];
+  statuses: { raw: string; status: ApplicationStatus }[];
+  rows: ParsedRow[];
+}
+
 /**
  * Detects column headers and maps them to application fields
  *
@@ -44,11 +225,11 @@ interface ColumnMapping {
  * contain company names, job titles, statuses, links, dates, and notes.
  * Supports various naming conventions for flexibility.
  *
- * @param headerRow - The first row containing column headers
+ * @param headerRow - The cells of the first row containing column headers
  * @returns Mapping of field names to column indices
  */
-function detectColumns(headerRow: string): ColumnMapping {
-  const columns = headerRow.toLowerCase().split("\t");
+function detectColumns(headerRow: string[]): ColumnMapping {
+  const columns = headerRow.map((cell) => cell.toLowerCase());
   const mapping: ColumnMapping = {};
 
   columns.forEach((col, index) => {
@@ -95,6 +276,75 @@ function detectColumns(headerRow: string): ColumnMapping {
   return mapping;
 }
 
+/**
+ * Normalizes a header or stage name for comparison with tracker formats
+ *
+ * @param label - Raw header or stage name (e.g. "Job URL", "listName")
+ * @returns Lowercased words separated by single spaces (e.g. "job url")
+ */
+function normalizeLabel(label: string): string {
+  return label
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Detects which tracker, if any, a header row was exported from
+ *
+ * @param headerRow - The cells of the header row
+ * @returns The matching tracker format, or undefined for other data
+ */
+function detectTrackerFormat(headerRow: string[]): TrackerFormat | undefined {
+  const headers = new Set(headerRow.map(normalizeLabel));
+  return TRACKER_FORMATS.find((format) => format.detect(headers));
+}
+
+/**
+ * Maps a header row to application fields using a tracker's column names
+ *
+ * Fields whose tracker column is missing fall back to the generic
+ * detection, as long as that column isn't already mapped.
+ *
+ * @param format - Detected tracker format
+ * @param headerRow - The cells of the header row
+ * @returns Mapping of field names to column indices
+ */
+function mapTrackerColumns(
+  format: TrackerFormat,
+  headerRow: string[],
+): ColumnMapping {
+  const headers = headerRow.map(normalizeLabel);
+  const fields = Object.keys(format.columns) as (keyof ColumnMapping)[];
+  const mapping: ColumnMapping = {};
+
+  fields.forEach((field) => {
+    const index = format.columns[field]
+      .map((candidate) => headers.indexOf(candidate))
+      .find((index) => index !== -1);
+    if (index !== undefined) {
+      mapping[field] = index;
+    }
+  });
+
+  const detected = detectColumns(headerRow);
+  const used = new Set(Object.values(mapping));
+  fields.forEach((field) => {
+    const index = detected[field];
+    if (
+      mapping[field] === undefined &&
+      index !== undefined &&
+      !used.has(index)
+    ) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+}
+
 /**
  * Normalizes status values to standard application statuses
  *
@@ -104,7 +354,7 @@ function detectColumns(headerRow: string): ColumnMapping {
  * @param status - Raw status string from imported data
  * @returns Normalized status string
  */
-function normalizeStatus(status: string): string {
+function normalizeStatus(status: string): ApplicationStatus {
   if (!status) return "interested";
 
   const normalized = status.toLowerCase().trim();
@@ -120,7 +370,7 @@ function normalizeStatus(status: string): string {
     return "interviewed";
   } else if (normalized.includes("offer")) {
     return "offered";
-  } else if (normalized.includes("cancel")) {
+  } else if (normalized.includes("cancel") || normalized.includes("archive")) {
     return "archived";
   }
 
@@ -142,69 +392,332 @@ function isUrl(str: string): boolean {
   }
 }
 
+/**
+ * Splits delimited text into rows of cells
+ *
+ * Follows the usual CSV quoting rules: fields may be wrapped in double
+ * quotes, quoted fields may contain delimiters and line breaks, and a
+ * doubled quote ("") inside a quoted field is a literal quote.
+ *
+ * @param data - Raw delimited text
+ * @param delimiter - Cell delimiter ("," or "\t")
+ * @returns Array of rows, each an array of cell strings
+ */
+function parseDelimited(data: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < data.length; i++) {
+    const char = data[i];
+
+    if (inQuotes) {
+      if (char === '"' && data[i + 1] === '"') {
+        // Escaped quote inside a quoted field
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      // Opening quote (only meaningful at the start of a field)
+      cell = "";
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      // Treat \r\n as a single line break
+      if (char === "\r" && data[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  // Flush the last row if the data doesn't end with a line break
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Guesses the delimiter of text data from its header line
+ *
+ * Spreadsheet clipboard data is tab-separated, so tabs win whenever the
+ * header contains any; otherwise commas are assumed.
+ *
+ * @param data - Raw delimited text
+ * @returns The detected delimiter
+ */
+function detectDelimiter(data: string): string {
+  const headerLine = data.trimStart().split(/\r?\n/, 1)[0] ?? "";
+  return headerLine.includes("\t") ? "\t" : ",";
+}
+
+/**
+ * Converts JSON data (as exported by trackers) into rows of cells
+ *
+ * Accepts an array of records, or an object holding one (e.g.
+ * `{ "jobs": [...] }`). Nested objects are flattened with dotted keys
+ * (`employer.name`); array values are ignored. The header row is the union
+ * of all keys in order of first appearance.
+ *
+ * @param data - Raw JSON text
+ * @returns Array of rows, each an array of cell strings
+ */
+function parseJsonRows(data: string): string[][] {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    throw new Error("Could not parse JSON data.");
+  }
+
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  const records = Array.isArray(json)
+    ? json
+    : isRecord(json)
+      ? Object.values(json).find(Array.isArray)
+      : undefined;
+  if (!records) {
+    throw new Error("JSON data must contain an array of applications.");
+  }
+
+  // Flatten a record into dotted keys and string values
+  const flatten = (
+    record: Record<string, unknown>,
+    prefix = "",
+  ): [string, string][] =>
+    Object.entries(record).flatMap(([key, value]): [string, string][] => {
+      if (isRecord(value)) return flatten(value, `${prefix}${key}.`);
+      if (Array.isArray(value) || value === null || value === undefined) {
+        return [];
+      }
+      return [[`${prefix}${key}`, String(value)]];
+    });
+
+  const flattened = records
+    .filter(isRecord)
+    .map((record) => new Map(flatten(record)));
+  const headers = [
+    ...new Set(flattened.flatMap((record) => [...record.keys()])),
+  ];
+
+  return [
+    headers,
+    ...flattened.map((record) =>
+      headers.map((header) => record.get(header) ?? ""),
+    ),
+  ];
+}
+
+/**
+ * Converts pasted or uploaded text into rows of cells
+ *
+ * JSON is recognized by its leading bracket; anything else is treated as
+ * delimited text with a detected delimiter.
+ *
+ * @param data - Raw text
+ * @returns Array of rows, each an array of cell strings
+ */
+function parseText(data: string): string[][] {
+  const trimmed = data.trimStart();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    return parseJsonRows(trimmed);
+  }
+  return parseDelimited(data, detectDelimiter(data));
+}
+
+/**
+ * Reads the first worksheet of an Excel workbook into rows of cells
+ *
+ * Dates are converted to ISO (YYYY-MM-DD) strings and empty cells to
+ * empty strings so the rows can be parsed like delimited text.
+ *
+ * @param file - XLSX file contents
+ * @returns Array of rows, each an array of cell strings
+ */
+async function readSpreadsheet(file: Blob): Promise<string[][]> {
+  const sheet = await readSheet(file);
+
+  return sheet.map((row) =>
+    row.map((cell) => {
+      if (cell === null) return "";
+      if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+      return String(cell);
+    }),
+  );
+}
+
+/**
+ * Converts an uploaded file into rows of cells based on its extension
+ *
+ * @param file - Uploaded file contents
+ * @param fileName - Original file name (used to pick the format)
+ * @returns Array of rows, each an array of cell strings
+ */
+async function readImportFile(
+  file: Blob,
+  fileName: string,
+): Promise<string[][]> {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+
+  switch (extension) {
+    case "xlsx":
+      return await readSpreadsheet(file);
+    case "xls":
+      throw new Error(
+        "Legacy .xls workbooks are not supported. Please save as .xlsx or .csv.",
+      );
+    case "csv":
+      return parseDelimited(await file.text(), ",");
+    case "tsv":
+      return parseDelimited(await file.text(), "\t");
+    case "json":
+      return parseJsonRows(await file.text());
+    default:
+      // Plain text and unknown extensions: guess from the content
+      return parseText(await file.text());
+  }
+}
+
+/**
+ * Checks whether a mapped column mostly contains numbers
+ *
+ * Used to catch ID-like columns (e.g. "Job ID") that were matched as a
+ * title or company by keyword.
+ *
+ * @param rows - Data rows (without the header)
+ * @param index - Column index to inspect
+ * @returns True if most non-empty values are numeric
+ */
+function isMostlyNumeric(rows: string[][], index: number): boolean {
+  const values = rows.map((row) => row[index]?.trim()).filter(Boolean);
+  if (values.length === 0) return false;
+
+  const numeric = values.filter((value) => /^[\d\s#.-]+$/.test(value));
+  return numeric.length / values.length > 0.5;
+}
+
 /**
  * Main parsing function for application data
  *
- * Parses tab-separated data into application objects. Handles column detection,
- * data validation, URL processing, and note combination. Filters out invalid
- * rows and normalizes all data fields.
+ * Parses rows of cells into application objects. Handles column detection,
+ * data validation, URL processing, and note combination. Rows that can't be
+ * imported are kept (with a null application) so a preview can show why.
  *
- * @param data - Raw tab-separated data string
- * @returns Array of parsed application objects
+ * @param rows - Rows of cells, the first being the header row
+ * @param mapping - Column mapping to use instead of the detected one (optional)
+ * @param statusOverrides - Normalized status per lowercased raw status (optional)
+ * @returns Headers, mapping, warnings and parsed rows
  */
-function parseApplicationData(data: string): ParsedApplication[] {
-  const lines = data.trim().split("\n");
+function parseApplicationData(
+  rows: string[][],
+  mapping?: ColumnMapping,
+  statusOverrides?: Infer<typeof statusOverridesValidator>,
+): ParsedImport {
+  const overrides = new Map(
+    statusOverrides?.map(({ raw, status }) => [raw.toLowerCase(), status]),
+  );
+
+  // Ignore blank rows (e.g. trailing empty lines or spreadsheet padding)
+  const lines = rows.filter((row) => row.some((cell) => cell.trim()));
   if (lines.length < 2) {
     throw new Error("Data must contain at least a header row and one data row");
   }
 
-  // Detect column mapping from header row
-  const columnMapping = detectColumns(lines[0]);
+  const headers = lines[0].map((cell) => cell.trim());
+  const dataRows = lines.slice(1);
 
-  // Validate that we have at least company and title columns
+  // Use the provided mapping, or detect it from the header row (using the
+  // tracker's own column names for known exports)
+  const format = detectTrackerFormat(headers);
+  const columnMapping =
+    mapping ??
+    (format ? mapTrackerColumns(format, headers) : detectColumns(headers));
+  const warnings: string[] = [];
+
+  // Flag mappings that are likely wrong
   if (
     columnMapping.company === undefined ||
     columnMapping.title === undefined
   ) {
-    throw new Error(
-      "Could not detect Company and Role/Title columns. Please ensure your data has these columns.",
+    warnings.push(
+      "Could not detect Company and Role/Title columns. Please map them below.",
     );
   }
+  const mappedColumns = Object.values(columnMapping);
+  if (new Set(mappedColumns).size !== mappedColumns.length) {
+    warnings.push("The same column is mapped to more than one field.");
+  }
+  (["company", "title"] as const).forEach((field) => {
+    const index = columnMapping[field];
+    if (index !== undefined && isMostlyNumeric(dataRows, index)) {
+      warnings.push(
+        `The ${field} column "${headers[index]}" mostly contains numbers. Is it an ID column?`,
+      );
+    }
+  });
 
-  const applications: ParsedApplication[] = [];
+  const statuses = new Map<string, ApplicationStatus>();
+  const parsedRows: ParsedRow[] = [];
 
   // Parse each data row
-  for (let i = 1; i < lines.length; i++) {
-    const row = lines[i].trim();
-    if (!row) continue; // Skip empty rows
-
-    const columns = row.split("\t");
+  dataRows.forEach((columns, index) => {
+    const rowWarnings: string[] = [];
+    const cell = (column: number | undefined) =>
+      column !== undefined ? columns[column]?.trim() : undefined;
 
     // Extract basic required fields
-    const company = columns[columnMapping.company]?.trim();
-    const title = columns[columnMapping.title]?.trim();
+    const company = cell(columnMapping.company);
+    const title = cell(columnMapping.title);
 
     if (!company || !title) {
-      continue;
+      parsedRows.push({
+        row: index + 2,
+        application: null,
+        warnings: ["Missing company or title. Row will be skipped."],
+      });
+      return;
     }
 
     // Extract optional fields
+    const rawStatus = cell(columnMapping.status);
+    const link = cell(columnMapping.link);
+    const notes = cell(columnMapping.notes);
+    const date = cell(columnMapping.date);
+
+    // Normalize status, preferring any user-provided override, then the
+    // tracker's own stage names
+    const statusKey = (rawStatus || "").toLowerCase();
+    const trackerStatus = format?.stages[normalizeLabel(statusKey)];
     const status =
-      columnMapping.status !== undefined
-        ? columns[columnMapping.status]?.trim()
-        : undefined;
-    const link =
-      columnMapping.link !== undefined
-        ? columns[columnMapping.link]?.trim()
-        : undefined;
-    const notes =
-      columnMapping.notes !== undefined
-        ? columns[columnMapping.notes]?.trim()
-        : undefined;
-    const date =
-      columnMapping.date !== undefined
-        ? columns[columnMapping.date]?.trim()
-        : undefined;
+      overrides.get(statusKey) ?? trackerStatus ?? normalizeStatus(statusKey);
+    if (rawStatus) {
+      statuses.set(statusKey, status);
+      if (
+        !overrides.has(statusKey) &&
+        !trackerStatus &&
+        status === "interested" &&
+        !statusKey.includes("interest")
+      ) {
+        rowWarnings.push(
+          `Unrecognized status "${rawStatus}", imported as interested.`,
+        );
+      }
+    }
 
     // Determine if link is a job posting or dashboard link
     let jobLink: string | undefined;
@@ -222,9 +735,12 @@ function parseApplicationData(data: string): ParsedApplication[] {
         link.includes("userHome")
       ) {
         // Skip dashboard URLs - they're not job posting links
+        rowWarnings.push("Dashboard link ignored.");
       } else {
         jobLink = link;
       }
+    } else if (link) {
+      rowWarnings.push(`"${link}" is not a valid URL and will be ignored.`);
     }
 
     // Build notes from available information
@@ -237,16 +753,246 @@ function parseApplicationData(data: string): ParsedApplication[] {
       combinedNotes += notes;
     }
 
-    applications.push({
-      company,
-      title,
-      link: jobLink,
-      notes: combinedNotes || undefined,
-      status: normalizeStatus(status || ""),
+    parsedRows.push({
+      row: index + 2,
+      application: {
+        company,
+        title,
+        link: jobLink,
+        notes: combinedNotes || undefined,
+        status,
+      },
+      warnings: rowWarnings,
+    });
+  });
+
+  return {
+    headers,
+    format: format ? { id: format.id, label: format.label } : null,
+    mapping: columnMapping,
+    warnings,
+    statuses: [...statuses.entries()].map(([raw, status]) => ({
+      raw,
+      status,
+    })),
+    rows: parsedRows,
+  };
+}
+
+/**
+ * Normalizes a company name or job title for duplicate matching
+ *
+ * @param value - Raw company name or title
+ * @returns Lowercased value with punctuation and whitespace removed
+ */
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Normalizes a job posting URL for duplicate matching
+ *
+ * Ignores protocol, "www.", trailing slashes and fragments so the same
+ * posting copied from different places still matches.
+ *
+ * @param link - Raw job posting URL
+ * @returns Normalized URL string
+ */
+function normalizeLink(link: string): string {
+  try {
+    const url = new URL(link);
+    const host = url.hostname.replace(/^www\./, "");
+    const path = url.pathname.replace(/\/+$/, "");
+    return `${host}${path}${url.search}`.toLowerCase();
+  } catch {
+    return link.trim().toLowerCase();
+  }
+}
+
+/**
+ * Marks parsed rows that match one of the user's existing applications
+ *
+ * A row matches when its normalized link equals an existing application's
+ * link, or when both its normalized company and title match. Rows that
+ * match no existing application but an earlier row of the same import are
+ * marked as repeats of that row.
+ *
+ * @param rows - Parsed rows (updated in place)
+ * @param existing - The user's existing applications
+ */
+function markDuplicates(rows: ParsedRow[], existing: Doc<"applications">[]) {
+  const byLink = new Map<string, Doc<"applications">>();
+  const byCompanyTitle = new Map<string, Doc<"applications">>();
+
+  existing.forEach((application) => {
+    if (application.link) {
+      byLink.set(normalizeLink(application.link), application);
+    }
+    byCompanyTitle.set(
+      `${normalizeKey(application.company)}|${normalizeKey(application.title)}`,
+      application,
+    );
+  });
+
+  // Rows of this import by normalized link and by company and title
+  const rowsByLink = new Map<string, number>();
+  const rowsByCompanyTitle = new Map<string, number>();
+
+  rows.forEach((row) => {
+    if (!row.application) return;
+
+    const { company, title, link } = row.application;
+    const linkKey = link ? normalizeLink(link) : undefined;
+    const companyTitleKey = `${normalizeKey(company)}|${normalizeKey(title)}`;
+    const match =
+      (linkKey && byLink.get(linkKey)) || byCompanyTitle.get(companyTitleKey);
+
+    if (match) {
+      row.duplicate = {
+        id: match._id,
+        company: match.company,
+        title: match.title,
+        status: match.status,
+      };
+      return;
+    }
+
+    const repeatOf =
+      (linkKey ? rowsByLink.get(linkKey) : undefined) ??
+      rowsByCompanyTitle.get(companyTitleKey);
+    if (repeatOf !== undefined) {
+      row.repeatOf = repeatOf;
+      return;
+    }
+
+    if (linkKey) rowsByLink.set(linkKey, row.row);
+    rowsByCompanyTitle.set(companyTitleKey, row.row);
+  });
+}
+
+/**
+ * Options shared by the import actions
+ */
+interface ImportOptions {
+  dryRun?: boolean; // Only parse and return a preview, don't insert
+  mapping?: ColumnMapping; // Column mapping to use instead of detection
+  statusOverrides?: Infer<typeof statusOverridesValidator>; // Raw status -> status
+  duplicateAction?: DuplicateAction; // Default action for duplicates ("skip")
+  duplicateActions?: Record<string, DuplicateAction>; // Row number -> action
+}
+
+/**
+ * Parses rows and either previews or imports them
+ *
+ * Rows are matched against the user's existing applications. In dry-run
+ * mode the parsed rows, duplicates, mapping and warnings are returned so the
+ * user can correct them. Otherwise new rows are inserted and duplicates are
+ * skipped, merged or inserted according to the chosen actions.
+ *
+ * @param ctx - Action context used to run queries and mutations
+ * @param userId - ID of the user to associate applications with
+ * @param rows - Rows of cells, the first being the header row
+ * @param options - Dry-run flag, mapping, status overrides and duplicate actions
+ * @returns Preview, or counts of imported, skipped and updated rows
+ */
+async function importRows(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  rows: string[][],
+  options: ImportOptions,
+) {
+  const parsed = parseApplicationData(
+    rows,
+    options.mapping,
+    options.statusOverrides,
+  );
+
+  // Match incoming rows against the user's existing applications
+  const existing = await ctx.runQuery(
+    internal.applications.getUserApplications,
+    { userId },
+  );
+  markDuplicates(parsed.rows, existing);
+
+  if (options.dryRun) {
+    return { success: true as const, preview: parsed };
+  }
+
+  // Validate that we have at least company and title columns
+  if (
+    parsed.mapping.company === undefined ||
+    parsed.mapping.title === undefined
+  ) {
+    throw new Error(
+      "Could not detect Company and Role/Title columns. Please ensure your data has these columns.",
+    );
+  }
+
+  const toInsert: ParsedApplication[] = [];
+  const toUpdate: {
+    id: Id<"applications">;
+    status: ApplicationStatus;
+    notes?: string;
+  }[] = [];
+  let skippedCount = 0;
+  let importedAsNewCount = 0;
+
+  // Sort rows into inserts, updates and skips
+  parsed.rows.forEach(({ row, application, duplicate, repeatOf }) => {
+    if (!application) return;
+
+    if (!duplicate && repeatOf === undefined) {
+      toInsert.push(application);
+      return;
+    }
+
+    // Repeated rows have no existing application to update
+    const action =
+      options.duplicateActions?.[String(row)] ??
+      options.duplicateAction ??
+      "skip";
+    if (action === "update" && duplicate) {
+      toUpdate.push({
+        id: duplicate.id,
+        status: application.status,
+        notes: application.notes,
+      });
+    } else if (action === "new") {
+      toInsert.push(application);
+      importedAsNewCount++;
+    } else {
+      skippedCount++;
+    }
+  });
+
+  if (toInsert.length > 0) {
+    // Call the internal mutation to insert data
+    await ctx.runMutation(internal.applications.insertApplications, {
+      applications: toInsert.map((application) => ({
+        company: application.company,
+        title: application.title,
+        link: application.link,
+        notes: application.notes,
+        status: application.status,
+      })),
+      userId: userId,
+    });
+  }
+
+  if (toUpdate.length > 0) {
+    await ctx.runMutation(internal.applications.updateImportedApplications, {
+      updates: toUpdate,
+      userId: userId,
     });
   }
 
-  return applications;
+  return {
+    success: true as const,
+    importedCount: toInsert.length,
+    importedAsNewCount,
+    skippedCount,
+    updatedCount: toUpdate.length,
+  };
 }
 
 /**
@@ -254,13 +1000,25 @@ function parseApplicationData(data: string): ParsedApplication[] {
  *
  * Main action function that processes raw text data and imports it as applications.
  * Handles authentication, data validation, parsing, and bulk insertion.
- * Returns success status and import count.
+ * With `dryRun`, returns a preview instead of inserting anything.
  *
- * @param data - Raw text data (typically tab-separated)
- * @returns Import result with success status and count
+ * @param data - Raw text data (tab- or comma-separated, or JSON)
+ * @param dryRun - Only parse and return a preview (optional)
+ * @param mapping - Column mapping to use instead of detection (optional)
+ * @param statusOverrides - Normalized status per lowercased raw status (optional)
+ * @param duplicateAction - Default action for rows matching an existing application (optional, "skip")
+ * @param duplicateActions - Action per duplicate row number (optional)
+ * @returns Import result with success status and counts, or a preview
  */
 export const importFromText = action({
-  args: { data: v.string() },
+  args: {
+    data: v.string(),
+    dryRun: v.optional(v.boolean()),
+    mapping: v.optional(columnMappingValidator),
+    statusOverrides: v.optional(statusOverridesValidator),
+    duplicateAction: v.optional(duplicateActionUnion),
+    duplicateActions: v.optional(v.record(v.string(), duplicateActionUnion)),
+  },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
 
@@ -281,57 +1039,115 @@ export const importFromText = action({
 
     try {
       // Parse the data using our custom parser
-      const parsedApplications = parseApplicationData(args.data);
-
-      if (parsedApplications.length > 0) {
-        const validStatuses = [
-          "interested",
-          "applied",
-          "assessment",
-          "interviewed",
-          "offered",
-          "rejected",
-          "archived",
-        ] as const;
-
-        // Filter out applications with missing required fields and validate status
-        const validApplications = parsedApplications.filter((application) => {
-          return (
-            application.company &&
-            application.company.trim().length > 0 &&
-            application.title &&
-            application.title.trim().length > 0
-          );
-        });
-
-        const applicationsToInsert = validApplications.map((application) => {
-          const status = validStatuses.includes(application.status as any)
-            ? (application.status as (typeof validStatuses)[number])
-            : "interested";
-
-          return {
-            company: application.company.trim(),
-            title: application.title.trim(),
-            link: application.link ?? undefined,
-            notes: application.notes ?? undefined,
-            status,
-          };
-        });
-
-        // Call the internal mutation to insert data
-        await ctx.runMutation(internal.applications.insertApplications, {
-          applications: applicationsToInsert,
-          userId: userId,
-        });
-      }
-
+      const rows = parseText(args.data);
+      return await importRows(ctx, userId, rows, args);
+    } catch (error) {
       return {
-        success: true,
-        importedCount: parsedApplications.length,
+        success: false as const,
+        error: error instanceof Error ? error.message : "Unknown parsing error",
       };
+    }
+  },
+});
+
+/**
+ * Looks up who uploaded a file (see uploads.ts)
+ *
+ * @param ctx - Action context
+ * @param storageId - Storage ID of the file
+ * @returns ID of the uploader, or null if the upload wasn't recorded
+ */
+async function getUploader(
+  ctx: ActionCtx,
+  storageId: Id<"_storage">,
+): Promise<Id<"users"> | null> {
+  const upload = await ctx.runQuery(internal.uploads.getUpload, { storageId });
+  return upload?.userId ?? null;
+}
+
+/**
+ * Deletes an uploaded file and its upload record
+ *
+ * @param ctx - Action context
+ * @param storageId - Storage ID of the file
+ */
+async function deleteUpload(
+  ctx: ActionCtx,
+  storageId: Id<"_storage">,
+): Promise<void> {
+  await ctx.runMutation(internal.uploads.deleteUpload, { storageId });
+}
+
+/**
+ * Imports application data from an uploaded file
+ *
+ * Reads a file previously uploaded via `generateUploadUrl` and recorded
+ * with `recordUpload` (see uploads.ts), parses it according to its extension (.csv, .tsv,
+ * .txt, .json or .xlsx) and imports the rows as applications. Only the
+ * user who uploaded the file can import it. The uploaded file is deleted
+ * once imported; dry runs keep it so the same upload can be previewed again
+ * and committed.
+ *
+ * @param storageId - Storage ID returned by the upload
+ * @param fileName - Original file name (used to pick the format)
+ * @param dryRun - Only parse and return a preview (optional)
+ * @param mapping - Column mapping to use instead of detection (optional)
+ * @param statusOverrides - Normalized status per lowercased raw status (optional)
+ * @param duplicateAction - Default action for rows matching an existing application (optional, "skip")
+ * @param duplicateActions - Action per duplicate row number (optional)
+ * @returns Import result with success status and counts, or a preview
+ */
+export const importFromFile = action({
+  args: {
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+    dryRun: v.optional(v.boolean()),
+    mapping: v.optional(columnMappingValidator),
+    statusOverrides: v.optional(statusOverridesValidator),
+    duplicateAction: v.optional(duplicateActionUnion),
+    duplicateActions: v.optional(v.record(v.string(), duplicateActionUnion)),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    // Verify the file was uploaded by the user; unrecorded files were
+    // already imported, discarded or expired
+    const uploader = await getUploader(ctx, args.storageId);
+    if (uploader === null) {
+      return { success: false as const, error: "Uploaded file not found." };
+    }
+    if (uploader !== userId) {
+      throw new Error("Client is not authorized to import this file!");
+    }
+
+    const file = await ctx.storage.get(args.storageId);
+    if (file === null) {
+      return { success: false as const, error: "Uploaded file not found." };
+    }
+
+    try {
+      // Validate file size to prevent abuse
+      if (file.size > MAX_FILE_SIZE) {
+        throw new Error("File is too large. Please limit to 5 MB.");
+      }
+
+      // Parse the file into rows, then preview or import them
+      const rows = await readImportFile(file, args.fileName);
+      const result = await importRows(ctx, userId, rows, args);
+
+      // Uploaded import files are only needed until the import succeeds;
+      // failed ones are kept for a retry until they expire (see uploads.ts)
+      if (!args.dryRun) {
+        await deleteUpload(ctx, args.storageId);
+      }
+      return result;
     } catch (error) {
       return {
-        success: false,
+        success: false as const,
         error: error instanceof Error ? error.message : "Unknown parsing error",
       };
     }
@@ -342,12 +1158,20 @@ export const importFromText = action({
  * Generates an upload URL for file storage
  *
  * Creates a temporary upload URL that can be used to upload files
- * to Convex storage. This is typically used for importing data from files.
+ * to Convex storage. This is typically used for importing data from files;
+ * the upload is then recorded with `recordUpload` (see uploads.ts) so only
+ * its uploader can import it.
  *
  * @returns Upload URL for file storage
  */
 export const generateUploadUrl = mutation({
   handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
     return await ctx.storage.generateUploadUrl();
   },
 });
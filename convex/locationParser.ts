@@ -0,0 +1,236 @@
+import { CITIES, City, COUNTRIES, REGIONS, Region } from "./gazetteer";
+
+/**
+ * Location Parsing
+ *
+ * This module turns the raw location text of a posting (e.g. "NYC, SF,
+ * Remote in USA") into normalized city/region/country entries, each flagged
+ * as remote, hybrid or onsite. Places are resolved with the bundled
+ * gazetteer (see gazetteer.ts); unknown places are kept as written.
+ *
+ * Handles:
+ * - "City, ST" pairs split across commas, and "City ST" without one
+ * - Aliases such as "NYC", "SF" or "USA"
+ * - Remote and hybrid markers ("Remote in USA", "Hybrid - Boston")
+ */
+
+/**
+ * Work arrangement of a location (see `workModeUnion` in unions.ts)
+ */
+export type WorkMode = "remote" | "hybrid" | "onsite";
+
+/**
+ * Location entry interface
+ * One normalized place of a posting; remote entries may have no place
+ */
+export interface LocationEntry {
+  city?: string;
+  region?: string; // State or province code (e.g. "NY")
+  country?: string;
+  mode: WorkMode;
+}
+
+// Separators between locations. "or"/"and" are matched in lowercase only so
+// the Oregon code "OR" isn't split on.
+const SEPARATORS = /\s*(?:[,;|\n•]|\s\/\s|\sor\s|\sand\s)\s*/;
+
+// Words describing the work arrangement rather than the place
+const MODE_WORDS =
+  /\b(remote|hybrid|on-?site|in[- ]office|in|from|within|only|friendly|based)\b/gi;
+
+// Summaries that stand in for a location list
+const LOCATION_SUMMARY = /^(\d+\s+locations?|multiple locations)$/i;
+
+// Gazetteer lookups by lowercased name or alias
+const citiesByName = new Map<string, City>();
+for (const city of CITIES) {
+  for (const name of [city.name, ...(city.aliases ?? [])]) {
+    citiesByName.set(name.toLowerCase(), city);
+  }
+}
+const regionsByName = new Map<string, Region>(
+  REGIONS.map((region) => [region.name.toLowerCase(), region]),
+);
+const regionsByCode = new Map<string, Region>(
+  REGIONS.map((region) => [region.code, region]),
+);
+const countriesByName = new Map<string, string>();
+for (const country of COUNTRIES) {
+  for (const name of [country.name, ...country.aliases]) {
+    countriesByName.set(name.toLowerCase(), country.name);
+  }
+}
+
+/**
+ * Looks up a state or province by code ("NY", uppercase only) or name
+ *
+ * @param text - Place text
+ * @returns The region, or undefined if the text isn't one
+ */
+function findRegion(text: string): Region | undefined {
+  return regionsByCode.get(text) ?? regionsByName.get(text.toLowerCase());
+}
+
+/**
+ * Parses the raw location text of a posting
+ *
+ * @param location - Raw location text (optional)
+ * @returns Normalized entries in the order they appear, without duplicates
+ */
+export function parseLocations(location: string | undefined): LocationEntry[] {
+  if (!location) return [];
+
+  const entries: LocationEntry[] = [];
+  // Entry created from the previous part, which a following state or
+  // country part may complete ("Austin, TX", "Remote, USA")
+  let previous: LocationEntry | undefined;
+
+  for (const part of location.split(SEPARATORS)) {
+    const text = part.trim();
+    if (!text || LOCATION_SUMMARY.test(text)) continue;
+
+    const mode: WorkMode = /\bremote\b/i.test(text)
+      ? "remote"
+      : /\bhybrid\b/i.test(text)
+        ? "hybrid"
+        : "onsite";
+    const hasModeWord =
+      mode !== "onsite" || /on-?site|in[- ]office/i.test(text);
+    const place = (hasModeWord ? text.replace(MODE_WORDS, " ") : text)
+      .replace(/[()\-–:]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+
+    const region = place ? findRegion(place) : undefined;
+    const country = place
+      ? countriesByName.get(place.toLowerCase())
+      : undefined;
+
+    // Complete the previous entry: "Austin, TX", "Chicago, IL (Hybrid)",
+    // "Toronto, Canada" or "Remote, USA". An explicit state or country
+    // overrides the gazetteer's ("Portland, ME").
+    if (previous && region && previous.city) {
+      previous.region = region.code;
+      previous.country = region.country;
+      if (hasModeWord) previous.mode = mode;
+      previous = undefined;
+      continue;
+    }
+    const isPlaceless =
+      previous && !previous.city && !previous.region && !previous.country;
+    if (previous && country && !hasModeWord && (previous.city || isPlaceless)) {
+      if (previous.country !== country) previous.region = undefined;
+      previous.country = country;
+      previous = undefined;
+      continue;
+    }
+
+    // Known cities win over regions of the same name ("New York")
+    let entry: LocationEntry;
+    if (!place) {
+      entry = { mode };
+    } else if (citiesByName.has(place.toLowerCase())) {
+      entry = { ...findCity(place), mode };
+    } else if (region) {
+      entry = { region: region.code, country: region.country, mode };
+    } else if (country) {
+      entry = { country, mode };
+    } else {
+      entry = { ...findCity(place), mode };
+    }
+
+    entries.push(entry);
+    previous = entry;
+  }
+
+  // Drop duplicates, keeping the first occurrence
+  const seen = new Set<string>();
+  return entries.filter((entry) => {
+    const key = `${getLocationLabel(entry)}|${entry.mode}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Resolves a city, with or without a trailing state code ("Austin TX")
+ *
+ * @param text - City text
+ * @returns City, region and country; unknown cities are kept as written
+ */
+function findCity(text: string): Omit<LocationEntry, "mode"> {
+  const city = citiesByName.get(text.toLowerCase());
+  if (city) {
+    return { city: city.name, region: city.region, country: city.country };
+  }
+
+  const withCode = text.match(/^(.+)\s([A-Z]{2})$/);
+  const region = withCode ? regionsByCode.get(withCode[2]) : undefined;
+  if (withCode && region) {
+    const known = citiesByName.get(withCode[1].toLowerCase());
+    return {
+      city: known?.name ?? withCode[1],
+      region: region.code,
+      country: region.country,
+    };
+  }
+
+  return { city: text };
+}
+
+/**
+ * Formats a location entry for display and filtering
+ *
+ * @param entry - Location entry
+ * @returns "City, ST", "City, Country", the region or country name, or the
+ * work mode for entries without a place
+ */
+export function getLocationLabel(entry: LocationEntry): string {
+  if (entry.city) {
+    const qualifier = entry.region ?? entry.country;
+    return qualifier ? `${entry.city}, ${qualifier}` : entry.city;
+  }
+  if (entry.region) {
+    return regionsByCode.get(entry.region)?.name ?? entry.region;
+  }
+  if (entry.country) return entry.country;
+  return entry.mode === "hybrid" ? "Hybrid" : "Remote";
+}
+
+/**
+ * Lists the location filters an entry matches, lowercased
+ *
+ * A filter matches an entry's label, its state or province (code or name)
+ * or its country, so "California" also matches "San Francisco, CA".
+ *
+ * @param entry - Location entry
+ * @returns Lowercased filter values, without duplicates
+ */
+export function getLocationKeys(entry: LocationEntry): string[] {
+  const region = entry.region ? regionsByCode.get(entry.region) : undefined;
+  const keys = [
+    getLocationLabel(entry),
+    entry.region,
+    region?.name,
+    entry.country,
+  ]
+    .filter((value): value is string => !!value)
+    .map((value) => value.toLowerCase());
+  return [...new Set(keys)];
+}
+
+/**
+ * Checks whether any location entry matches a location filter
+ *
+ * @param entries - Location entries of a posting
+ * @param location - Location filter (e.g. a label from the location facet)
+ * @returns Whether the posting is in that location (see `getLocationKeys`)
+ */
+export function matchesLocation(
+  entries: LocationEntry[],
+  location: string,
+): boolean {
+  const target = location.toLowerCase();
+  return entries.some((entry) => getLocationKeys(entry).includes(target));
+}
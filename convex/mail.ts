@@ -0,0 +1,204 @@
+"use node";
+
+import nodemailer from "nodemailer";
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import {
+  Digest,
+  DIGEST_PERIOD_DAYS,
+  DigestRecipient,
+  isDigestEmpty,
+  renderDigest,
+} from "./digests";
+
+/**
+ * Mail Delivery
+ *
+ * This module sends email through a pluggable transport and delivers the
+ * weekly digest (see digests.ts). Transports:
+ * - smtp: Sends through an SMTP server with nodemailer (STARTTLS or
+ *   implicit TLS, with optional authentication), configured with the
+ *   `SMTP_*` variables
+ * - console: Writes messages to the Convex logs instead of sending them,
+ *   for local development and tests
+ *
+ * `MAIL_TRANSPORT` picks the transport; without it, SMTP is used when
+ * `SMTP_HOST` is set and the console otherwise. Runs in Node for sockets.
+ */
+
+// Milliseconds an SMTP server may take to connect, greet or reply
+const SMTP_TIMEOUT_MS = 30_000;
+
+/**
+ * Mail message interface
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string; // Plain text body
+  html: string; // HTML body
+}
+
+/**
+ * Mail transport interface
+ * Delivers messages; implementations must throw when delivery fails
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * SMTP configuration interface
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (port 465) instead of STARTTLS
+  user?: string;
+  password?: string;
+  from: string; // Sender address
+}
+
+/**
+ * Creates a transport that logs messages instead of sending them
+ *
+ * @returns Console transport
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.log(
+        `Mail to ${message.to}\nSubject: ${message.subject}\n\n${message.text}`,
+      );
+    },
+  };
+}
+
+/**
+ * Creates a transport that sends messages through an SMTP server
+ *
+ * @param config - SMTP server, credentials and sender
+ * @returns SMTP transport
+ */
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user
+      ? { user: config.user, pass: config.password ?? "" }
+      : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from: config.from, ...message });
+    },
+  };
+}
+
+/**
+ * Picks the transport configured by the environment
+ *
+ * @returns SMTP or console transport
+ */
+export function getMailTransport(): MailTransport {
+  const transport =
+    process.env.MAIL_TRANSPORT ?? (process.env.SMTP_HOST ? "smtp" : "console");
+  if (transport === "console") {
+    return createConsoleTransport();
+  }
+  if (transport !== "smtp") {
+    throw new Error(`Unknown mail transport "${transport}"!`);
+  }
+
+  const host = process.env.SMTP_HOST;
+  const from = process.env.MAIL_FROM;
+  if (!host || !from) {
+    throw new Error("SMTP_HOST and MAIL_FROM must be set to send mail!");
+  }
+  const secure = process.env.SMTP_SECURE === "true";
+  return createSmtpTransport({
+    host,
+    port: process.env.SMTP_PORT
+      ? parseInt(process.env.SMTP_PORT)
+      : secure
+        ? 465
+        : 587,
+    secure,
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from,
+  });
+}
+
+/**
+ * Schedules the weekly digest of every user who opted in (internal action)
+ *
+ * Runs weekly (see crons.ts). Each digest is sent by its own action, so a
+ * slow mail server can't hold up the others.
+ */
+export const sendWeeklyDigests = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const recipients: DigestRecipient[] = await ctx.runQuery(
+      internal.digests.getDigestRecipients,
+    );
+    for (const recipient of recipients) {
+      await ctx.scheduler.runAfter(0, internal.mail.sendDigest, recipient);
+    }
+  },
+});
+
+/**
+ * Sends a user's weekly digest (internal action)
+ *
+ * A digest lists the opportunities scraped since the user's last digest
+ * (at most `DIGEST_PERIOD_DAYS` ago); empty digests aren't sent. A failed
+ * delivery is logged and retried next week.
+ *
+ * @param userId - Recipient of the digest
+ * @param email - Address to send the digest to
+ * @param name - Recipient's name (optional)
+ * @param lastDigestAt - When the user's last digest was sent (optional)
+ */
+export const sendDigest = internalAction({
+  args: {
+    userId: v.id("users"),
+    email: v.string(),
+    name: v.optional(v.string()),
+    lastDigestAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const since = Math.max(
+      args.lastDigestAt ?? 0,
+      now - DIGEST_PERIOD_DAYS * 24 * 60 * 60 * 1000,
+    );
+    const digest: Digest = await ctx.runQuery(internal.digests.getDigest, {
+      userId: args.userId,
+      since,
+    });
+    if (isDigestEmpty(digest)) return;
+
+    const dashboardUrl = process.env.SITE_URL
+      ? `${process.env.SITE_URL}/dashboard`
+      : undefined;
+    try {
+      await getMailTransport().send({
+        to: args.email,
+        ...renderDigest(digest, dashboardUrl),
+      });
+      await ctx.runMutation(internal.digests.recordDigestSent, {
+        userId: args.userId,
+        sentAt: now,
+      });
+    } catch (error) {
+      console.error(`Digest to ${args.email} failed:`, error);
+    }
+  },
+});
@@ -0,0 +1,329 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { countCompanyOpportunities, resolveCompany } from "./companies";
+import { countOpportunityFacets } from "./facets";
+import { syncOpportunityPlaces } from "./places";
+import { getStatusHistory } from "./history";
+import { parseLocations } from "./locationParser";
+import { getOpportunityKey } from "./opportunities";
+
+/**
+ * Data Migrations
+ *
+ * This module contains one-off internal mutations that rewrite existing
+ * documents after a schema change. Migrations process the table in batches
+ * and reschedule themselves until every document has been visited, so they
+ * are safe to run on large tables.
+ *
+ * Run from the dashboard or CLI, e.g.:
+ *   npx convex run migrations:migrateStatusHistory
+ */
+
+// Number of documents processed per migration batch
+const BATCH_SIZE = 100;
+
+/**
+ * Converts legacy bare-status history into timestamped status history
+ *
+ * Applications created before timestamped history only stored an array of
+ * previous statuses. This migration fills `statusHistory` for those records
+ * (current status dated to the last update, older statuses to creation time)
+ * and clears the legacy `history` field.
+ *
+ * @param cursor - Pagination cursor for the next batch (omit to start)
+ */
+export const migrateStatusHistory = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("applications")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    // Only touch applications that still have the legacy shape
+    await Promise.all(
+      page
+        .filter((application) => application.statusHistory === undefined)
+        .map((application) =>
+          ctx.db.patch(application._id, {
+            statusHistory: getStatusHistory(application),
+            history: undefined,
+          }),
+        ),
+    );
+
+    // Continue with the next batch until the table is exhausted
+    if (!isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.migrations.migrateStatusHistory,
+        {
+          cursor: continueCursor,
+        },
+      );
+    }
+  },
+});
+
+/**
+ * Marks opportunities stored before open/closed tracking as open
+ *
+ * Opportunities without `isOpen`, `isStale` or `isFaang` don't appear in
+ * the open/closed index or match the title search's filters, so this sets
+ * them on every such document: open, fresh (until the next stale check)
+ * and not FAANG+, as the other filters already treat them.
+ *
+ * @param cursor - Pagination cursor for the next batch (omit to start)
+ */
+export const backfillOpportunityState = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("opportunities")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    await Promise.all(
+      page
+        .filter(
+          (opportunity) =>
+            opportunity.isOpen === undefined ||
+            opportunity.isStale === undefined ||
+            opportunity.isFaang === undefined,
+        )
+        .map((opportunity) =>
+          ctx.db.patch(opportunity._id, {
+            isOpen: opportunity.isOpen ?? true,
+            isStale: opportunity.isStale ?? false,
+            isFaang: opportunity.isFaang ?? false,
+          }),
+        ),
+    );
+
+    // Continue with the next batch until the table is exhausted
+    if (!isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.migrations.backfillOpportunityState,
+        {
+          cursor: continueCursor,
+        },
+      );
+    }
+  },
+});
+
+/**
+ * Sets the stable key on opportunities stored before keyed upserts
+ *
+ * Scrapes match listings to stored opportunities through the `by_key`
+ * index, so opportunities without a key would be inserted again.
+ *
+ * @param cursor - Pagination cursor for the next batch (omit to start)
+ */
+export const backfillOpportunityKeys = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("opportunities")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    await Promise.all(
+      page
+        .filter((opportunity) => opportunity.key === undefined)
+        .map((opportunity) =>
+          ctx.db.patch(opportunity._id, {
+            key: getOpportunityKey(opportunity.company, opportunity.title),
+          }),
+        ),
+    );
+
+    // Continue with the next batch until the table is exhausted
+    if (!isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.migrations.backfillOpportunityKeys,
+        {
+          cursor: continueCursor,
+        },
+      );
+    }
+  },
+});
+
+/**
+ * Parses the locations of opportunities stored before location parsing
+ *
+ * Fills the normalized `locations` from the raw `location` text, so the
+ * location and work mode filters and facets include older opportunities.
+ *
+ * @param cursor - Pagination cursor for the next batch (omit to start)
+ */
+export const backfillOpportunityLocations = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("opportunities")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    await Promise.all(
+      page
+        .filter((opportunity) => opportunity.locations === undefined)
+        .map((opportunity) =>
+          ctx.db.patch(opportunity._id, {
+            locations: parseLocations(opportunity.location),
+          }),
+        ),
+    );
+
+    // Continue with the next batch until the table is exhausted
+    if (!isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.migrations.backfillOpportunityLocations,
+        {
+          cursor: continueCursor,
+        },
+      );
+    }
+  },
+});
+
+/**
+ * Links opportunities stored before the companies table to their company
+ *
+ * The company filter matches opportunities by company ID, so unlinked
+ * opportunities would never match it. Companies are resolved one at a time
+ * so a batch doesn't create the same company twice.
+ *
+ * @param cursor - Pagination cursor for the next batch (omit to start)
+ */
+export const backfillOpportunityCompanies = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("opportunities")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const opportunity of page) {
+      if (opportunity.companyId !== undefined) continue;
+      const companyId = await resolveCompany(ctx, opportunity.company);
+      await ctx.db.patch(opportunity._id, { companyId });
+      await countCompanyOpportunities(ctx, companyId, 1);
+    }
+
+    // Continue with the next batch until the table is exhausted
+    if (!isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.migrations.backfillOpportunityCompanies,
+        {
+          cursor: continueCursor,
+        },
+      );
+    }
+  },
+});
+
+/**
+ * Links applications stored before the companies table to their company
+ *
+ * @param cursor - Pagination cursor for the next batch (omit to start)
+ */
+export const backfillApplicationCompanies = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("applications")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const application of page) {
+      if (application.companyId !== undefined) continue;
+      await ctx.db.patch(application._id, {
+        companyId: await resolveCompany(ctx, application.company),
+      });
+    }
+
+    // Continue with the next batch until the table is exhausted
+    if (!isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.migrations.backfillApplicationCompanies,
+        {
+          cursor: continueCursor,
+        },
+      );
+    }
+  },
+});
+
+/**
+ * Recounts the opportunity facets from scratch
+ *
+ * Clears the facet counts on the first batch, then counts every
+ * opportunity. Run once after upgrading, after the other opportunity
+ * migrations; scrapes keep the counts up to date from then on.
+ *
+ * @param cursor - Pagination cursor for the next batch (omit to start)
+ */
+export const backfillOpportunityFacets = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    if (!args.cursor) {
+      const facets = await ctx.db.query("opportunityFacets").collect();
+      await Promise.all(facets.map((facet) => ctx.db.delete(facet._id)));
+    }
+
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("opportunities")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    // One at a time, as opportunities share facet counts
+    for (const opportunity of page) {
+      await countOpportunityFacets(ctx, null, opportunity);
+    }
+
+    // Continue with the next batch until the table is exhausted
+    if (!isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.migrations.backfillOpportunityFacets,
+        {
+          cursor: continueCursor,
+        },
+      );
+    }
+  },
+});
+
+/**
+ * Adds the place rows of every opportunity
+ *
+ * The location and work mode filters read the opportunityPlaces table
+ * (see places.ts). Run once after upgrading, after the other opportunity
+ * migrations; scrapes keep the rows up to date from then on.
+ *
+ * @param cursor - Pagination cursor for the next batch (omit to start)
+ */
+export const backfillOpportunityPlaces = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("opportunities")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const opportunity of page) {
+      await syncOpportunityPlaces(ctx, opportunity._id, opportunity);
+    }
+
+    // Continue with the next batch until the table is exhausted
+    if (!isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.migrations.backfillOpportunityPlaces,
+        {
+          cursor: continueCursor,
+        },
+      );
+    }
+  },
+});
@@ -0,0 +1,289 @@
+import { v, Infer } from "convex/values";
+import {
+  internalMutation,
+  mutation,
+  MutationCtx,
+  query,
+} from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { notificationKindUnion } from "./unions";
+
+/**
+ * In-App Notifications
+ *
+ * This module raises and reads the notifications shown in the dashboard's
+ * bell: new opportunities matching a saved search (see savedSearches.ts),
+ * postings that closed under an application (see opportunities.ts),
+ * follow-up reminders that came due (see reminders.ts) and applications that
+ * haven't been updated for a while (checked daily, see crons.ts).
+ *
+ * Notifications are keyed by subject, so raising one again updates it and
+ * marks it unread instead of adding a duplicate.
+ */
+
+// Days without an update after which an application counts as stale
+export const STALE_APPLICATION_DAYS = 14;
+
+// Most notifications shown in the bell
+const MAX_NOTIFICATIONS = 50;
+
+// Number of applications checked per notifyStaleApplications batch
+const BATCH_SIZE = 200;
+
+/**
+ * Checks whether an application is waiting on the company without an update
+ *
+ * Applications that were applied to, are in an assessment or interviewing
+ * count as stale after `STALE_APPLICATION_DAYS` without an update.
+ *
+ * @param application - Application to check
+ * @param now - Current timestamp
+ * @returns Whether the application is stale
+ */
+export function isStaleApplication(
+  application: Doc<"applications">,
+  now: number,
+): boolean {
+  const lastUpdated = application.lastUpdated ?? application._creationTime;
+  return (
+    ["applied", "assessment", "interviewed"].includes(application.status) &&
+    lastUpdated < now - STALE_APPLICATION_DAYS * 24 * 60 * 60 * 1000
+  );
+}
+
+/**
+ * Raises a notification, or updates the one with the same key
+ *
+ * @param ctx - Mutation context
+ * @param notification - Recipient, kind, key, text and subject of the notification
+ */
+export async function notify(
+  ctx: MutationCtx,
+  notification: {
+    userId: Id<"users">;
+    kind: Infer<typeof notificationKindUnion>;
+    key: string;
+    title: string;
+    body?: string;
+    applicationId?: Id<"applications">;
+    savedSearchId?: Id<"savedSearches">;
+  },
+): Promise<void> {
+  const existing = await ctx.db
+    .query("notifications")
+    .withIndex("by_userId_key", (q) =>
+      q.eq("userId", notification.userId).eq("key", notification.key),
+    )
+    .unique();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      ...notification,
+      createdAt: Date.now(),
+      readAt: undefined,
+    });
+  } else {
+    await ctx.db.insert("notifications", {
+      ...notification,
+      createdAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Removes the notification with a key, e.g. once its subject is resolved
+ *
+ * @param ctx - Mutation context
+ * @param userId - Recipient of the notification
+ * @param key - Subject of the notification
+ */
+export async function clearNotification(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  key: string,
+): Promise<void> {
+  const existing = await ctx.db
+    .query("notifications")
+    .withIndex("by_userId_key", (q) => q.eq("userId", userId).eq("key", key))
+    .unique();
+  if (existing) {
+    await ctx.db.delete(existing._id);
+  }
+}
+
+/**
+ * Marks the notification with a key as read
+ *
+ * @param ctx - Mutation context
+ * @param userId - Recipient of the notification
+ * @param key - Subject of the notification
+ */
+export async function readNotification(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  key: string,
+): Promise<void> {
+  const existing = await ctx.db
+    .query("notifications")
+    .withIndex("by_userId_key", (q) => q.eq("userId", userId).eq("key", key))
+    .unique();
+  if (existing && existing.readAt === undefined) {
+    await ctx.db.patch(existing._id, { readAt: Date.now() });
+  }
+}
+
+/**
+ * Retrieves the latest notifications of the authenticated user
+ *
+ * @returns Latest notifications (newest first) and the number of unread ones
+ */
+export const getNotifications = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return { notifications: [], unreadCount: 0 };
+    }
+
+    const notifications = await ctx.db
+      .query("notifications")
+      .withIndex("by_userId_created", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(MAX_NOTIFICATIONS);
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_userId_readAt", (q) =>
+        q.eq("userId", userId).eq("readAt", undefined),
+      )
+      .collect();
+
+    return { notifications, unreadCount: unread.length };
+  },
+});
+
+/**
+ * Marks a notification as read
+ *
+ * @param id - Notification ID
+ */
+export const markNotificationRead = mutation({
+  args: { id: v.id("notifications") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    // Verify the notification exists and belongs to the user
+    const notification = await ctx.db.get(args.id);
+    if (notification?.userId !== userId) {
+      throw new Error("Client is not authorized to update this notification!");
+    }
+
+    if (notification.readAt === undefined) {
+      await ctx.db.patch(args.id, { readAt: Date.now() });
+    }
+  },
+});
+
+/**
+ * Marks every unread notification of the authenticated user as read
+ */
+export const markAllNotificationsRead = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_userId_readAt", (q) =>
+        q.eq("userId", userId).eq("readAt", undefined),
+      )
+      .collect();
+    const now = Date.now();
+    await Promise.all(
+      unread.map((notification) =>
+        ctx.db.patch(notification._id, { readAt: now }),
+      ),
+    );
+  },
+});
+
+/**
+ * Dismisses (deletes) a notification
+ *
+ * @param id - Notification ID to dismiss
+ */
+export const dismissNotification = mutation({
+  args: { id: v.id("notifications") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    // Verify the notification exists and belongs to the user
+    const notification = await ctx.db.get(args.id);
+    if (notification?.userId !== userId) {
+      throw new Error("Client is not authorized to delete this notification!");
+    }
+
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Notifies users of applications that haven't been updated for a while (internal mutation)
+ *
+ * Runs daily (see crons.ts). Each stale application (see
+ * `isStaleApplication`) is notified once per stale period; the time is kept
+ * on the application, so a dismissed notification isn't raised again.
+ * Works in batches and reschedules itself until every application was
+ * checked.
+ *
+ * @param cursor - Pagination cursor for the next batch (omit to start)
+ */
+export const notifyStaleApplications = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("applications")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const application of page) {
+      if (!isStaleApplication(application, now)) continue;
+      const lastUpdated = application.lastUpdated ?? application._creationTime;
+
+      // Skip applications already notified since their last update
+      if ((application.staleNotifiedAt ?? 0) > lastUpdated) continue;
+
+      const days = Math.floor((now - lastUpdated) / (24 * 60 * 60 * 1000));
+      await notify(ctx, {
+        userId: application.userId,
+        kind: "stale_application",
+        key: `stale:${application._id}`,
+        title: `No update from ${application.company} in ${days} days`,
+        body: application.title,
+        applicationId: application._id,
+      });
+      await ctx.db.patch(application._id, { staleNotifiedAt: now });
+    }
+
+    // Continue with the next batch until the table is exhausted
+    if (!isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.notifications.notifyStaleApplications,
+        {
+          cursor: continueCursor,
+        },
+      );
+    }
+  },
+});
@@ -1,6 +1,28 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { paginationOptsValidator } from "convex/server";
+import {
+  internalMutation,
+  mutation,
+  MutationCtx,
+  query,
+} from "./_generated/server";
+import { DataModel, Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getStaleBefore } from "./sources";
+import { countCompanyOpportunities, resolveCompany } from "./companies";
+import { clearNotification, notify } from "./notifications";
+import { countOpportunityFacets } from "./facets";
+import { syncOpportunityPlaces } from "./places";
+import { matchesLocation, parseLocations } from "./locationParser";
+import {
+  degreeLevelUnion,
+  opportunityFacetUnion,
+  opportunityFilterFields,
+  opportunityFilters,
+  sponsorshipUnion,
+  workModeUnion,
+} from "./unions";
+import { Infer } from "convex/values";
+import { FilterBuilder, paginationOptsValidator } from "convex/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
 
 /**
@@ -11,16 +33,114 @@ import { getAuthUserId } from "@convex-dev/auth/server";
  * opportunities to applications.
  */
 
+// Number of opportunities flagged per source by one markStaleOpportunities run
+const STALE_BATCH_SIZE = 200;
+
+// Number of opportunities checked by one closeUnlistedOpportunities call
+const UNLISTED_BATCH_SIZE = 200;
+
+// Place row field flagging each work mode (see places.ts)
+const WORK_MODE_FIELDS = {
+  remote: "isRemote",
+  hybrid: "isHybrid",
+  onsite: "isOnsite",
+} as const;
+
+// Number of locations offered by the location facet
+const MAX_LOCATION_FACETS = 50;
+
+/**
+ * Computes the stable key an opportunity is matched by across scrapes
+ *
+ * Postings are identified by company and title, compared case- and
+ * whitespace-insensitively, so the same posting found again (or in another
+ * source) updates the stored opportunity instead of adding a duplicate.
+ *
+ * @param company - Company name
+ * @param title - Job title
+ * @returns Opportunity key
+ */
+export function getOpportunityKey(company: string, title: string): string {
+  const normalize = (value: string) =>
+    value.toLowerCase().replace(/\s+/g, " ").trim();
+  return `${normalize(company)}|${normalize(title)}`;
+}
+
 /**
- * Adds multiple job opportunities to the database
+ * Records whether an opportunity is open and flags linked applications
  *
- * Filters out duplicate opportunities (same company and title) before inserting.
- * This prevents the same job posting from being added multiple times.
+ * Closing sets `closedAt` on the opportunity and `opportunityClosedAt` on
+ * every application created from it, and notifies the applications' owners;
+ * reopening clears both and withdraws the notifications. The facet counts
+ * are updated either way.
+ *
+ * @param ctx - Mutation context
+ * @param opportunity - Opportunity to update
+ * @param isOpen - Whether the posting is open upstream
+ * @param now - Timestamp of the state change
+ * @returns Whether the state changed
+ */
+async function setOpportunityOpen(
+  ctx: MutationCtx,
+  opportunity: Doc<"opportunities">,
+  isOpen: boolean,
+  now: number,
+): Promise<boolean> {
+  // Opportunities without state (before migration) count as open
+  if ((opportunity.isOpen ?? true) === isOpen) return false;
+
+  const closedAt = isOpen ? undefined : now;
+  const updated = { ...opportunity, isOpen, closedAt };
+  await ctx.db.patch(opportunity._id, { isOpen, closedAt });
+  await countOpportunityFacets(ctx, opportunity, updated);
+  await syncOpportunityPlaces(ctx, opportunity._id, updated);
+
+  const applications = await ctx.db
+    .query("applications")
+    .withIndex("by_opportunityId", (q) =>
+      q.eq("opportunityId", opportunity._id),
+    )
+    .collect();
+  for (const application of applications) {
+    await ctx.db.patch(application._id, { opportunityClosedAt: closedAt });
+
+    const key = `closed:${application._id}`;
+    if (isOpen) {
+      await clearNotification(ctx, application.userId, key);
+    } else {
+      await notify(ctx, {
+        userId: application.userId,
+        kind: "posting_closed",
+        key,
+        title: `Posting closed at ${application.company}`,
+        body: application.title,
+        applicationId: application._id,
+      });
+    }
+  }
+  return true;
+}
+
+/**
+ * Adds or updates job opportunities from a scrape (internal mutation)
+ *
+ * Each listing is matched to a stored opportunity by its key (see
+ * `getOpportunityKey`). New open listings are inserted and linked to their
+ * company, flagged as stale when they were posted before `staleBefore`;
+ * closed listings and listings without an application link are never
+ * inserted. Opportunities already stored from the same source get their
+ * location, link and details (term, sponsorship, FAANG+, degree level)
+ * updated and are marked closed or reopened to match the listing. Every
+ * listed opportunity is stamped with `seenAt` (see
+ * `closeUnlistedOpportunities`). New opportunities are then checked against
+ * saved searches.
  *
  * @param opportunities - Array of opportunity objects to add
  * @param source - Source of the opportunities (e.g., "linkedin", "indeed")
+ * @param staleBefore - Postings created before this timestamp are stale
+ * @returns Number of opportunities added, updated, closed and reopened
  */
-export const addOpportunities = mutation({
+export const upsertOpportunities = internalMutation({
   args: {
     opportunities: v.array(
       v.object({
@@ -29,119 +149,495 @@ export const addOpportunities = mutation({
         location: v.optional(v.string()),
         applicationLink: v.optional(v.string()),
         createdAt: v.optional(v.number()),
+        closed: v.optional(v.boolean()),
+        term: v.optional(v.string()),
+        sponsorship: v.optional(sponsorshipUnion),
+        isFaang: v.optional(v.boolean()),
+        degreeLevel: v.optional(degreeLevelUnion),
       }),
     ),
     source: v.string(),
+    staleBefore: v.number(),
   },
   handler: async (ctx, args) => {
     const now = Date.now();
+    const counts = { added: 0, updated: 0, closed: 0, reopened: 0 };
+    const addedIds: Id<"opportunities">[] = [];
 
-    // Get all existing opportunities to check for duplicates
-    const allExistingOpportunities = await ctx.db
-      .query("opportunities")
-      .collect();
-
-    // Filter out opportunities that already exist (same company and title)
-    const newOpportunities = args.opportunities.filter(
-      (opportunity) =>
-        !allExistingOpportunities.some(
-          (s) =>
-            s.company === opportunity.company && s.title === opportunity.title,
-        ),
-    );
+    for (const opportunity of args.opportunities) {
+      const key = getOpportunityKey(opportunity.company, opportunity.title);
+      const existing = await ctx.db
+        .query("opportunities")
+        .withIndex("by_key", (q) => q.eq("key", key))
+        .first();
 
-    // Insert new opportunities in parallel for better performance
-    await Promise.all(
-      newOpportunities.map((opportunity) =>
-        ctx.db.insert("opportunities", {
+      if (!existing) {
+        if (opportunity.closed || !opportunity.applicationLink) continue;
+
+        const createdAt = opportunity.createdAt || now;
+        const companyId = await resolveCompany(ctx, opportunity.company);
+        const opportunityId = await ctx.db.insert("opportunities", {
+          key,
           company: opportunity.company,
+          companyId,
           title: opportunity.title,
           location: opportunity.location,
+          locations: parseLocations(opportunity.location),
           link: opportunity.applicationLink,
           source: args.source,
-          createdAt: opportunity.createdAt || now,
-        }),
-      ),
-    );
+          createdAt,
+          isOpen: true,
+          isStale: createdAt < args.staleBefore,
+          seenAt: now,
+          term: opportunity.term,
+          sponsorship: opportunity.sponsorship,
+          isFaang: opportunity.isFaang,
+          degreeLevel: opportunity.degreeLevel,
+        });
+        await countCompanyOpportunities(ctx, companyId, 1);
+        const inserted = await ctx.db.get(opportunityId);
+        await countOpportunityFacets(ctx, null, inserted);
+        await syncOpportunityPlaces(ctx, opportunityId, inserted);
+        addedIds.push(opportunityId);
+        counts.added++;
+        continue;
+      }
+
+      // Only the source that listed an opportunity updates it
+      if (existing.source !== args.source) continue;
+
+      // Keep stored values when a listing no longer has them (e.g. the
+      // link of a closed listing)
+      const changes = {
+        location: opportunity.location ?? existing.location,
+        link: opportunity.applicationLink ?? existing.link,
+        term: opportunity.term ?? existing.term,
+        sponsorship: opportunity.sponsorship ?? existing.sponsorship,
+        isFaang: opportunity.isFaang ?? existing.isFaang,
+        degreeLevel: opportunity.degreeLevel ?? existing.degreeLevel,
+      };
+      const changed = (Object.keys(changes) as (keyof typeof changes)[]).some(
+        (field) => changes[field] !== existing[field],
+      );
+      const current = changed
+        ? {
+            ...existing,
+            ...changes,
+            locations: parseLocations(changes.location),
+          }
+        : existing;
+      await ctx.db.patch(existing._id, {
+        ...(changed && { ...changes, locations: current.locations }),
+        seenAt: now,
+      });
+      if (changed) {
+        await countOpportunityFacets(ctx, existing, current);
+        await syncOpportunityPlaces(ctx, existing._id, current);
+        counts.updated++;
+      }
+
+      if (await setOpportunityOpen(ctx, current, !opportunity.closed, now)) {
+        counts[opportunity.closed ? "closed" : "reopened"]++;
+      }
+    }
+
+    // Let saved searches pick up the new postings
+    if (addedIds.length > 0) {
+      await ctx.scheduler.runAfter(0, internal.savedSearches.notifyNewMatches, {
+        opportunityIds: addedIds,
+      });
+    }
+
+    return counts;
   },
 });
 
 /**
- * Retrieves job opportunities with various filtering options
+ * Closes open opportunities a scrape no longer lists (internal mutation)
  *
- * Supports multiple query modes:
- * - Search by title text
- * - Filter by source
- * - Filter by company names
- * - Default: all opportunities ordered by creation date
+ * Lists often delete a posting instead of marking it closed. Once every
+ * batch of a successful scrape is upserted, opportunities of the source
+ * that weren't seen since the scrape started are closed, one page of the
+ * source's opportunities per call.
  *
- * @param source - Filter by opportunity source (optional)
- * @param paginationOpts - Pagination configuration
- * @param search - Search term for job titles (optional)
- * @param company - Array of company names to filter by (optional)
- * @returns Paginated results based on the query mode
+ * @param source - Source that was scraped
+ * @param seenBefore - When the scrape started
+ * @param cursor - Cursor returned by the previous call (optional)
+ * @returns Number of opportunities closed, and where to continue from
  */
-export const getOpportunities = query({
+export const closeUnlistedOpportunities = internalMutation({
   args: {
-    source: v.optional(v.string()),
-    paginationOpts: paginationOptsValidator,
-    search: v.optional(v.string()),
-    company: v.optional(v.array(v.string())),
+    source: v.string(),
+    seenBefore: v.number(),
+    cursor: v.optional(v.union(v.string(), v.null())),
   },
   handler: async (ctx, args) => {
-    // Search mode: full-text search on job titles
-    if (args.search) {
-      return await ctx.db
-        .query("opportunities")
-        .withSearchIndex("search_title", (q) => q.search("title", args.search!))
-        .paginate(args.paginationOpts);
+    const now = Date.now();
+    const { page, continueCursor, isDone } = await ctx.db
+      .query("opportunities")
+      .withIndex("by_source_created", (q) => q.eq("source", args.source))
+      .paginate({ numItems: UNLISTED_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let closed = 0;
+    for (const opportunity of page) {
+      // Opportunities stored before seenAt existed are unlisted unless seen
+      if ((opportunity.seenAt ?? 0) >= args.seenBefore) continue;
+      if (await setOpportunityOpen(ctx, opportunity, false, now)) {
+        closed++;
+      }
     }
-    // Source filter mode: opportunities from specific source
-    else if (args.source) {
-      return await ctx.db
+
+    return { closed, continueCursor, isDone };
+  },
+});
+
+/**
+ * Flags opportunities that aged out of their source's freshness window (internal mutation)
+ *
+ * Runs daily (see crons.ts) and after a source is updated. Opportunities
+ * older than the window are marked stale; ones inside it (e.g. after the
+ * window was widened) are marked fresh again. Works in batches and
+ * reschedules itself until every source is up to date.
+ */
+export const markStaleOpportunities = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const sources = await ctx.db.query("sources").collect();
+
+    let hasMore = false;
+    for (const source of sources) {
+      const staleBefore = getStaleBefore(source, now);
+
+      const aged = await ctx.db
         .query("opportunities")
-        .withIndex("by_source_created", (q) => q.eq("source", args.source!))
-        .order("desc")
-        .paginate(args.paginationOpts);
+        .withIndex("by_source_created", (q) =>
+          q.eq("source", source.key).lt("createdAt", staleBefore),
+        )
+        .filter((q) => q.neq(q.field("isStale"), true))
+        .take(STALE_BATCH_SIZE);
+      const fresh = await ctx.db
+        .query("opportunities")
+        .withIndex("by_source_created", (q) =>
+          q.eq("source", source.key).gte("createdAt", staleBefore),
+        )
+        .filter((q) => q.neq(q.field("isStale"), false))
+        .take(STALE_BATCH_SIZE);
+
+      // One at a time, as opportunities can share facet counts
+      for (const [opportunities, isStale] of [
+        [aged, true],
+        [fresh, false],
+      ] as const) {
+        for (const opportunity of opportunities) {
+          const updated = { ...opportunity, isStale };
+          await ctx.db.patch(opportunity._id, { isStale });
+          await countOpportunityFacets(ctx, opportunity, updated);
+          await syncOpportunityPlaces(ctx, opportunity._id, updated);
+        }
+      }
+      hasMore ||=
+        aged.length === STALE_BATCH_SIZE || fresh.length === STALE_BATCH_SIZE;
     }
-    // Company filter mode: opportunities from specific companies
-    else if (args.company && args.company.length > 0) {
-      // Query each company individually and combine results
-      const allResults = await Promise.all(
-        args.company.map((company) =>
-          ctx.db
-            .query("opportunities")
-            .withIndex("by_company", (q) => q.eq("company", company))
-            .collect(),
-        ),
+
+    if (hasMore) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.opportunities.markStaleOpportunities,
+        {},
       );
+    }
+  },
+});
+
+/**
+ * Checks whether an opportunity matches a combination of filters
+ *
+ * The title search is left to the search index (see `matchesSearch` for
+ * checking it on a single opportunity). Opportunities from before the
+ * company, open, stale and detail fields existed count as open, fresh and
+ * not FAANG+; their locations are parsed on the fly.
+ *
+ * @param opportunity - Opportunity to check
+ * @param filters - Filters to apply; empty or missing filters match everything
+ * @returns Whether the opportunity matches every filter
+ */
+export function matchesFilters(
+  opportunity: Doc<"opportunities">,
+  filters: Infer<typeof opportunityFilters>,
+): boolean {
+  const companies = filters.company ?? [];
+  const location = filters.location?.trim();
+  const getLocations = () =>
+    opportunity.locations ?? parseLocations(opportunity.location);
+
+  return (
+    (companies.length === 0 ||
+      (opportunity.companyId !== undefined &&
+        companies.includes(opportunity.companyId))) &&
+    (!filters.source || opportunity.source === filters.source) &&
+    (!location || matchesLocation(getLocations(), location)) &&
+    (filters.workMode === undefined ||
+      getLocations().some((entry) => entry.mode === filters.workMode)) &&
+    (filters.isOpen === undefined ||
+      (opportunity.isOpen ?? true) === filters.isOpen) &&
+    (filters.isStale === undefined ||
+      (opportunity.isStale ?? false) === filters.isStale) &&
+    (!filters.term || opportunity.term === filters.term) &&
+    (filters.sponsorship === undefined ||
+      opportunity.sponsorship === filters.sponsorship) &&
+    (filters.isFaang === undefined ||
+      (opportunity.isFaang ?? false) === filters.isFaang) &&
+    (filters.degreeLevel === undefined ||
+      opportunity.degreeLevel === filters.degreeLevel)
+  );
+}
+
+/**
+ * Checks whether a job title contains every word of a search term
+ *
+ * Mirrors the title search for single opportunities, e.g. when checking
+ * new postings against saved searches. The last word may be a prefix
+ * ("engin" matches "Engineer").
+ *
+ * @param title - Job title
+ * @param search - Search term (optional)
+ * @returns Whether the title matches; always true without a search term
+ */
+export function matchesSearch(
+  title: string,
+  search: string | undefined,
+): boolean {
+  const words = title.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+  const terms = (search ?? "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  return terms.every((term, index) =>
+    words.some((word) =>
+      index === terms.length - 1 ? word.startsWith(term) : word === term,
+    ),
+  );
+}
+
+/**
+ * Builds the database filter for a combination of filters
+ *
+ * Covers every filter that can be checked on stored fields: everything but
+ * the title search (left to the search index) and the location and work
+ * mode (read from the opportunityPlaces table, see places.ts), so it
+ * applies to opportunities and place rows alike. Opportunities from before
+ * the open, stale and FAANG+ fields existed count as open, fresh and not
+ * FAANG+.
+ *
+ * @param q - Filter builder of an opportunities or place rows query
+ * @param filters - Filters to apply, with an optional creation date range
+ * @returns Filter expression
+ */
+function filterOpportunities(
+  q: FilterBuilder<DataModel["opportunities"] | DataModel["opportunityPlaces"]>,
+  filters: Infer<typeof opportunityFilters> & {
+    createdFrom?: number;
+    createdTo?: number;
+  },
+) {
+  const companies = filters.company ?? [];
+  const { isOpen, isStale, isFaang } = filters;
 
-      // Flatten and sort by creation date (newest first)
-      const flattened = allResults
-        .flat()
-        .sort((a, b) => b.createdAt - a.createdAt);
+  return q.and(
+    companies.length > 0
+      ? q.or(
+          ...companies.map((companyId) =>
+            q.eq(q.field("companyId"), companyId),
+          ),
+        )
+      : true,
+    filters.source ? q.eq(q.field("source"), filters.source) : true,
+    isOpen === undefined
+      ? true
+      : isOpen
+        ? q.neq(q.field("isOpen"), false)
+        : q.eq(q.field("isOpen"), false),
+    isStale === undefined
+      ? true
+      : isStale
+        ? q.eq(q.field("isStale"), true)
+        : q.neq(q.field("isStale"), true),
+    filters.term ? q.eq(q.field("term"), filters.term) : true,
+    filters.sponsorship === undefined
+      ? true
+      : q.eq(q.field("sponsorship"), filters.sponsorship),
+    isFaang === undefined
+      ? true
+      : isFaang
+        ? q.eq(q.field("isFaang"), true)
+        : q.neq(q.field("isFaang"), true),
+    filters.degreeLevel === undefined
+      ? true
+      : q.eq(q.field("degreeLevel"), filters.degreeLevel),
+    filters.createdFrom === undefined
+      ? true
+      : q.gte(q.field("createdAt"), filters.createdFrom),
+    filters.createdTo === undefined
+      ? true
+      : q.lte(q.field("createdAt"), filters.createdTo),
+  );
+}
 
-      // Manual pagination for combined results
-      const start = args.paginationOpts.cursor
-        ? parseInt(args.paginationOpts.cursor)
-        : 0;
-      const end = start + args.paginationOpts.numItems;
-      const page = flattened.slice(start, end);
+/**
+ * Retrieves job opportunities matching any combination of filters
+ *
+ * All filters apply together. Title searches are ordered by relevance;
+ * everything else is ordered by creation date (newest first) and read from
+ * the most selective index: the company (when only one is selected), the
+ * source, the open/closed state, or creation date alone. Filtering by
+ * location or work mode reads the opportunityPlaces table instead (see
+ * places.ts). Every filter is applied by the database before paginating.
+ *
+ * @param paginationOpts - Pagination configuration
+ * @param search - Search term for job titles (optional)
+ * @param source - Filter by opportunity source (optional)
+ * @param company - Array of company IDs to filter by (optional)
+ * @param location - Only postings in this city, state or country, e.g. a value of the location facet (optional)
+ * @param workMode - Only postings with a remote, hybrid or onsite location (optional)
+ * @param createdFrom - Only postings created at or after this timestamp (optional)
+ * @param createdTo - Only postings created at or before this timestamp (optional)
+ * @param isOpen - Only open (true) or closed (false) postings (optional)
+ * @param isStale - Only stale (true) or fresh (false) postings (optional)
+ * @param term - Only postings for this term, e.g. "Summer 2026" (optional)
+ * @param sponsorship - Only postings with these work authorization requirements (optional)
+ * @param isFaang - Only FAANG+ (true) or other (false) companies (optional)
+ * @param degreeLevel - Only postings requiring this degree level (optional)
+ * @returns Page of matching opportunities with a cursor for the next page
+ */
+export const getOpportunities = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    ...opportunityFilterFields,
+    createdFrom: v.optional(v.number()),
+    createdTo: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const companies = args.company ?? [];
+    const createdFrom = args.createdFrom ?? 0;
+    const createdTo = args.createdTo ?? Number.MAX_SAFE_INTEGER;
 
+    // Location and work mode: read the place rows, which carry every other
+    // filterable field, then their opportunities
+    const location = args.location?.trim().toLowerCase();
+    if (location || args.workMode !== undefined) {
+      const place = location ?? "";
+      const modeField = args.workMode && WORK_MODE_FIELDS[args.workMode];
+
+      const rows = args.search
+        ? ctx.db
+            .query("opportunityPlaces")
+            .withSearchIndex("search_title", (q) => {
+              let search = q.search("title", args.search!).eq("place", place);
+              if (modeField) search = search.eq(modeField, true);
+              return search;
+            })
+        : ctx.db
+            .query("opportunityPlaces")
+            .withIndex("by_place_created", (q) =>
+              q
+                .eq("place", place)
+                .gte("createdAt", createdFrom)
+                .lte("createdAt", createdTo),
+            )
+            .order("desc");
+      const results = await rows
+        .filter((q) =>
+          q.and(
+            filterOpportunities(q, args),
+            modeField ? q.eq(q.field(modeField), true) : true,
+          ),
+        )
+        .paginate(args.paginationOpts);
+
+      const opportunities = await Promise.all(
+        results.page.map((row) => ctx.db.get(row.opportunityId)),
+      );
       return {
-        page,
-        isDone: end >= flattened.length,
-        continueCursor: end < flattened.length ? end.toString() : "",
+        ...results,
+        page: opportunities.filter(
+          (opportunity): opportunity is Doc<"opportunities"> =>
+            opportunity !== null,
+        ),
       };
     }
-    // Default mode: all opportunities ordered by creation date
-    else {
+
+    // Search mode: full-text search on job titles, narrowed by the search
+    // index's filter fields
+    if (args.search) {
       return await ctx.db
         .query("opportunities")
-        .withIndex("by_createdAt")
-        .order("desc")
+        .withSearchIndex("search_title", (q) => {
+          let search = q.search("title", args.search!);
+          if (companies.length === 1)
+            search = search.eq("companyId", companies[0]);
+          if (args.source) search = search.eq("source", args.source);
+          if (args.isOpen !== undefined) {
+            search = search.eq("isOpen", args.isOpen);
+          }
+          if (args.isStale !== undefined) {
+            search = search.eq("isStale", args.isStale);
+          }
+          if (args.term) search = search.eq("term", args.term);
+          if (args.sponsorship !== undefined) {
+            search = search.eq("sponsorship", args.sponsorship);
+          }
+          if (args.isFaang !== undefined) {
+            search = search.eq("isFaang", args.isFaang);
+          }
+          if (args.degreeLevel !== undefined) {
+            search = search.eq("degreeLevel", args.degreeLevel);
+          }
+          return search;
+        })
+        .filter((q) => filterOpportunities(q, args))
         .paginate(args.paginationOpts);
     }
+
+    // Feed mode: newest first from the most selective index
+    const feed =
+      companies.length === 1
+        ? ctx.db
+            .query("opportunities")
+            .withIndex("by_companyId_created", (q) =>
+              q
+                .eq("companyId", companies[0])
+                .gte("createdAt", createdFrom)
+                .lte("createdAt", createdTo),
+            )
+        : args.source
+          ? ctx.db
+              .query("opportunities")
+              .withIndex("by_source_created", (q) =>
+                q
+                  .eq("source", args.source!)
+                  .gte("createdAt", createdFrom)
+                  .lte("createdAt", createdTo),
+              )
+          : args.isOpen !== undefined
+            ? ctx.db
+                .query("opportunities")
+                .withIndex("by_isOpen_created", (q) =>
+                  q
+                    .eq("isOpen", args.isOpen)
+                    .gte("createdAt", createdFrom)
+                    .lte("createdAt", createdTo),
+                )
+            : ctx.db
+                .query("opportunities")
+                .withIndex("by_createdAt", (q) =>
+                  q.gte("createdAt", createdFrom).lte("createdAt", createdTo),
+                );
+
+    return await feed
+      .order("desc")
+      .filter((q) => filterOpportunities(q, args))
+      .paginate(args.paginationOpts);
   },
 });
 
@@ -171,36 +667,72 @@ export const addSuggestionToApplications = mutation({
       throw new Error("Client is not authenticated!");
     }
 
+    const now = Date.now();
+
     // Create new application from the opportunity
     await ctx.db.insert("applications", {
       company: opportunity.company,
+      companyId:
+        opportunity.companyId ??
+        (await resolveCompany(ctx, opportunity.company)),
       title: opportunity.title,
       userId: userId,
       status: "interested", // Start with "interested" status
-      history: [],
+      statusHistory: [{ status: "interested", at: now }],
       notes: "",
       link: opportunity.link,
-      lastUpdated: Date.now(),
+      lastUpdated: now,
       opportunityId: args.opportunityId, // Link back to the original opportunity
+      opportunityClosedAt: opportunity.closedAt,
     });
   },
 });
 
 /**
- * Gets a list of all unique company names from opportunities
+ * Counts open opportunities by posting detail
  *
- * This function is used to populate company filter dropdowns and
- * provide autocomplete suggestions for company-based searches.
+ * Used to populate the location, work mode, term, sponsorship, degree level
+ * and FAANG+ facets of the opportunities filter. Stale postings are left
+ * out, matching the default opportunities view. Reads the counts kept in
+ * the opportunityFacets table (see facets.ts).
  *
- * @returns Array of unique company names
+ * @returns Counts per location (most common only), work mode, term,
+ * sponsorship requirement and degree level, and the number of FAANG+
+ * postings
  */
-export const getCompanies = query({
+export const getOpportunityFacets = query({
+  args: {},
   handler: async (ctx) => {
-    // Get all opportunities
-    const opportunities = await ctx.db.query("opportunities").collect();
+    // Values of a facet, most common first
+    const countBy = async <T extends string>(
+      facet: Infer<typeof opportunityFacetUnion>,
+      limit?: number,
+    ) => {
+      const values = ctx.db
+        .query("opportunityFacets")
+        .withIndex("by_facet_count", (q) => q.eq("facet", facet))
+        .order("desc");
+      const counts = limit ? await values.take(limit) : await values.collect();
+      return counts.map(({ value, count }) => ({ value: value as T, count }));
+    };
+
+    const [locations, workModes, terms, sponsorship, degreeLevels, faang] =
+      await Promise.all([
+        countBy("location", MAX_LOCATION_FACETS),
+        countBy<Infer<typeof workModeUnion>>("workMode"),
+        countBy("term"),
+        countBy<Infer<typeof sponsorshipUnion>>("sponsorship"),
+        countBy<Infer<typeof degreeLevelUnion>>("degreeLevel"),
+        countBy("faang"),
+      ]);
 
-    // Extract unique company names using Set
-    const companies = [...new Set(opportunities.map((s) => s.company))];
-    return companies;
+    return {
+      locations,
+      workModes,
+      terms,
+      sponsorship,
+      degreeLevels,
+      faang: faang[0]?.count ?? 0,
+    };
   },
 });
@@ -0,0 +1,94 @@
+import { MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getLocationKeys, parseLocations } from "./locationParser";
+
+/**
+ * Opportunity Places
+ *
+ * This module keeps the `opportunityPlaces` table in step with the
+ * opportunities table. Locations are stored as an array on each
+ * opportunity, which database filters can't look into, so every
+ * opportunity also gets one row per place it's listed in, plus one row
+ * with an empty place. `getOpportunities` reads these rows when filtering
+ * by location or work mode, so every other filter can be applied to them
+ * before paginating.
+ *
+ * Every write that changes an opportunity's state or details passes the
+ * opportunity after the change to `syncOpportunityPlaces`.
+ */
+
+/**
+ * Builds the place rows of an opportunity
+ *
+ * Opportunities from before the open, stale and FAANG+ fields existed are
+ * stored as open, fresh and not FAANG+, matching `matchesFilters`.
+ *
+ * @param opportunity - Opportunity to index
+ * @returns One row per location filter value, plus the row with no place
+ */
+function getPlaceRows(
+  opportunity: Doc<"opportunities">,
+): Omit<Doc<"opportunityPlaces">, "_id" | "_creationTime">[] {
+  const locations =
+    opportunity.locations ?? parseLocations(opportunity.location);
+  const modes = new Set(locations.map((entry) => entry.mode));
+  const places = new Set(["", ...locations.flatMap(getLocationKeys)]);
+
+  return [...places].map((place) => ({
+    opportunityId: opportunity._id,
+    place,
+    title: opportunity.title,
+    companyId: opportunity.companyId,
+    source: opportunity.source,
+    createdAt: opportunity.createdAt,
+    isOpen: opportunity.isOpen ?? true,
+    isStale: opportunity.isStale ?? false,
+    term: opportunity.term,
+    sponsorship: opportunity.sponsorship,
+    isFaang: opportunity.isFaang ?? false,
+    degreeLevel: opportunity.degreeLevel,
+    isRemote: modes.has("remote"),
+    isHybrid: modes.has("hybrid"),
+    isOnsite: modes.has("onsite"),
+  }));
+}
+
+/**
+ * Updates the place rows of an opportunity after a change
+ *
+ * Rows for places the opportunity is still listed in are updated in place;
+ * others are added or removed.
+ *
+ * @param ctx - Mutation context
+ * @param opportunityId - Opportunity that changed
+ * @param opportunity - Opportunity after the change (null when deleted)
+ */
+export async function syncOpportunityPlaces(
+  ctx: MutationCtx,
+  opportunityId: Id<"opportunities">,
+  opportunity: Doc<"opportunities"> | null,
+): Promise<void> {
+  const existing = await ctx.db
+    .query("opportunityPlaces")
+    .withIndex("by_opportunityId", (q) => q.eq("opportunityId", opportunityId))
+    .collect();
+  const rows = new Map(
+    (opportunity ? getPlaceRows(opportunity) : []).map((row) => [
+      row.place,
+      row,
+    ]),
+  );
+
+  for (const row of existing) {
+    const update = rows.get(row.place);
+    if (update) {
+      await ctx.db.replace(row._id, update);
+      rows.delete(row.place);
+    } else {
+      await ctx.db.delete(row._id);
+    }
+  }
+  for (const row of rows.values()) {
+    await ctx.db.insert("opportunityPlaces", row);
+  }
+}
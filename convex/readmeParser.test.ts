@@ -0,0 +1,250 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  Listing,
+  parseListingDate,
+  parseListings,
+  parseTables,
+} from "./readmeParser";
+
+/**
+ * README Parser Tests
+ *
+ * Parses saved snapshots of the SimplifyJobs (HTML tables) and vanshb03
+ * (Markdown tables) READMEs in fixtures/ and checks the listings found.
+ * Dates are resolved against a fixed reference time, October 1st 2025.
+ */
+
+const NOW = new Date(2025, 9, 1).getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads a README snapshot from the fixtures directory
+ */
+function readFixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+}
+
+/**
+ * Builds an expected listing, defaulting the posting details
+ */
+function listing(fields: Partial<Listing>): Listing {
+  return {
+    company: "",
+    title: "",
+    location: "",
+    closed: false,
+    sponsorship: "unrestricted",
+    isFaang: false,
+    degreeLevel: "bachelors",
+    ...fields,
+  };
+}
+
+describe("parseTables", () => {
+  it("reads HTML tables with multiline cells and skips commented ones", () => {
+    const tables = parseTables(readFixture("simplify-readme.md"));
+
+    expect(tables.map((table) => table.headers)).toEqual([
+      ["Company", "Role", "Location", "Application", "Age"],
+      ["Company", "Role", "Location", "Application"],
+    ]);
+    expect(tables.map((table) => table.rows.length)).toEqual([6, 1]);
+
+    const [company, title, location, application] = tables[0].rows[0];
+    expect(company.text).toBe("🔥 Google");
+    expect(company.links).toEqual([
+      {
+        href: "https://simplify.jobs/c/Google?utm_source=GHList&utm_medium=company",
+        text: "🔥 Google",
+      },
+    ]);
+    expect(title.text).toBe("Software Engineering Intern, BS");
+    expect(location.text).toBe(
+      "3 locations\nMountain View, CA\nNew York, NY\nSeattle, WA",
+    );
+    expect(application.links.map((link) => link.text)).toEqual([
+      "Apply",
+      "Simplify",
+    ]);
+
+    // A cell spanning several lines keeps one line per visual line
+    expect(tables[0].rows[2][1].text).toBe("Software Engineering Intern\n🇺🇸");
+  });
+
+  it("reads Markdown tables with escaped pipes and short rows", () => {
+    const tables = parseTables(readFixture("vansh-readme.md"));
+
+    expect(tables.map((table) => table.headers)).toEqual([
+      ["Legend", "Meaning"],
+      ["Company", "Role", "Location", "Application/Link", "Date Posted"],
+      ["Company", "Role", "Term", "Location", "Application/Link"],
+      ["Company", "Role", "Location", "Application/Link", "Date Posted"],
+    ]);
+    expect(tables.map((table) => table.rows.length)).toEqual([3, 6, 2, 1]);
+
+    const rows = tables[1].rows;
+    expect(rows[4][0].text).toBe("Pipe | Co");
+    expect(rows[5]).toHaveLength(3);
+  });
+
+  it("keeps tables nested in a cell as cell content", () => {
+    const tables = parseTables(
+      "<table><tr><td>Acme</td><td>Intern <table><tr><td>note</td></tr></table></td></tr></table>",
+    );
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].rows).toHaveLength(1);
+    expect(tables[0].rows[0].map((cell) => cell.text)).toEqual([
+      "Acme",
+      "Intern note",
+    ]);
+  });
+});
+
+describe("parseListings", () => {
+  it("parses the SimplifyJobs README", () => {
+    expect(parseListings(readFixture("simplify-readme.md"), NOW)).toEqual([
+      listing({
+        company: "Google",
+        title: "Software Engineering Intern, BS",
+        location: "Mountain View, CA, New York, NY, Seattle, WA",
+        applicationLink:
+          "https://careers.google.com/jobs/results/123?utm_source=Simplify&ref=Simplify",
+        createdAt: NOW,
+        isFaang: true,
+      }),
+      listing({
+        company: "Google",
+        title: "Student Researcher, PhD",
+        location: "Remote in USA",
+        applicationLink: "https://careers.google.com/jobs/results/456",
+        createdAt: NOW - 3 * DAY_MS,
+        isFaang: true,
+        degreeLevel: "phd",
+      }),
+      listing({
+        company: "Lockheed Martin",
+        title: "Software Engineering Intern",
+        location: "Fort Worth, TX",
+        applicationLink: "https://lmco.wd5.myworkdayjobs.com/job/789",
+        createdAt: NOW - 7 * DAY_MS,
+        sponsorship: "us_citizens_only",
+      }),
+      listing({
+        company: "AT&T",
+        title: "Technology Development Program Intern – Summer 2026",
+        location: "Dallas, TX, Atlanta, GA",
+        applicationLink: "https://att.jobs/job/321?a=1&b=2",
+        createdAt: NOW - 60 * DAY_MS,
+        term: "Summer 2026",
+        sponsorship: "no_sponsorship",
+      }),
+      listing({
+        company: "Stripe",
+        title: "Software Engineer Intern",
+        location: "San Francisco, CA",
+        applicationLink: "https://simplify.jobs/c/Stripe",
+        createdAt: NOW - 30 * DAY_MS,
+        closed: true,
+      }),
+      listing({
+        company: "Stripe",
+        title: "Machine Learning Engineer Intern, Master's",
+        location: "Toronto, ON, Canada",
+        createdAt: NOW - 35 * DAY_MS,
+        closed: true,
+        degreeLevel: "masters",
+      }),
+      listing({
+        company: "Citadel",
+        title: "Quantitative Research Intern",
+        location: "Chicago, IL",
+        applicationLink: "https://www.citadel.com/careers/654",
+      }),
+    ]);
+  });
+
+  it("parses the vanshb03 README", () => {
+    expect(parseListings(readFixture("vansh-readme.md"), NOW)).toEqual([
+      listing({
+        company: "Jane Street",
+        title: "Software Engineer Intern",
+        location: "New York, NY",
+        applicationLink:
+          "https://www.janestreet.com/join-jane-street/position/123/",
+        createdAt: new Date(2025, 8, 24).getTime(),
+      }),
+      listing({
+        company: "Jane Street",
+        title: "Quantitative Trader Intern",
+        location: "London, UK, Hong Kong",
+        applicationLink:
+          "https://www.janestreet.com/join-jane-street/position/456/",
+        createdAt: new Date(2025, 8, 20).getTime(),
+      }),
+      listing({
+        company: "Palantir",
+        title: "Forward Deployed Software Engineer Intern",
+        location: "Washington, DC",
+        applicationLink: "https://jobs.lever.co/palantir/789",
+        // December comes after the reference date, so it's last year's
+        createdAt: new Date(2024, 11, 28).getTime(),
+        sponsorship: "us_citizens_only",
+      }),
+      listing({
+        company: "Two Sigma",
+        title: "Quantitative Researcher Intern",
+        location: "New York, NY",
+        applicationLink: "https://www.twosigma.com",
+        createdAt: new Date(2025, 7, 15).getTime(),
+        closed: true,
+      }),
+      listing({
+        company: "Pipe | Co",
+        title: "Backend Engineering Intern",
+        location: "Remote",
+        applicationLink: "https://pipe.com/careers/1",
+        createdAt: new Date(2025, 8, 30).getTime(),
+        sponsorship: "no_sponsorship",
+      }),
+      listing({
+        company: "Ramp",
+        title: "Software Engineer Intern",
+        location: "New York, NY",
+        applicationLink: "https://ramp.com",
+      }),
+      listing({
+        company: "Tesla",
+        title: "Software Engineering Intern",
+        location: "Palo Alto, CA",
+        applicationLink: "https://www.tesla.com/careers/1",
+        term: "Fall 2026",
+      }),
+      listing({
+        company: "NVIDIA",
+        title: "Research Intern, PhD",
+        location: "Santa Clara, CA",
+        applicationLink: "https://www.nvidia.com",
+        closed: true,
+        term: "Winter 2027",
+        degreeLevel: "phd",
+      }),
+    ]);
+  });
+});
+
+describe("parseListingDate", () => {
+  it("reads relative ages in hours, days, weeks and months", () => {
+    expect(parseListingDate("1h", NOW)).toBe(NOW - DAY_MS / 24);
+    expect(parseListingDate("0d", NOW)).toBe(NOW);
+    expect(parseListingDate("2w", NOW)).toBe(NOW - 14 * DAY_MS);
+    expect(parseListingDate("3 weeks", NOW)).toBe(NOW - 21 * DAY_MS);
+    expect(parseListingDate("1mo", NOW)).toBe(NOW - 30 * DAY_MS);
+  });
+
+  it("ignores ages in unknown units", () => {
+    expect(parseListingDate("5y", NOW)).toBeUndefined();
+    expect(parseListingDate("2 constructor", NOW)).toBeUndefined();
+  });
+});
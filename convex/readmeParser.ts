@@ -0,0 +1,622 @@
+import { Infer } from "convex/values";
+import { degreeLevelUnion, sponsorshipUnion } from "./unions";
+
+/**
+ * README Table Parsing
+ *
+ * This module parses the job tables in internship list READMEs (e.g.
+ * vanshb03 and SimplifyJobs) into listings. It understands both HTML tables
+ * and Markdown (GFM) tables, and detects columns from each table's header
+ * row, so lists with extra, missing or reordered columns still parse.
+ *
+ * Handles:
+ * - Variable column counts and header-based column detection
+ * - Cells spanning several lines and nested tags (links, <details>, <br>)
+ * - Continuation rows (↳) that repeat the previous row's company
+ * - Closed postings (🔒 or struck through), which are kept and flagged
+ *   rather than dropped
+ * - Posting details the lists mark with emojis or mention in the title:
+ *   term, sponsorship (🛂, 🇺🇸), FAANG+ (🔥) and degree level (🎓)
+ */
+
+/**
+ * Link found in a table cell (HTML anchor or Markdown link)
+ */
+export interface CellLink {
+  href: string;
+  text: string; // Link text, or the alt text of a linked image
+}
+
+/**
+ * Table cell interface
+ * Keeps the raw markup alongside the extracted text and links
+ */
+export interface TableCell {
+  html: string; // Raw cell content
+  text: string; // Plain text, one line per <br>/block element
+  links: CellLink[];
+}
+
+/**
+ * Parsed table interface
+ * `headers` is empty when the table has no header row
+ */
+export interface ReadmeTable {
+  headers: string[];
+  rows: TableCell[][];
+}
+
+/**
+ * Work authorization requirements
+ */
+export type Sponsorship = Infer<typeof sponsorshipUnion>;
+
+/**
+ * Minimum degree required
+ */
+export type DegreeLevel = Infer<typeof degreeLevelUnion>;
+
+/**
+ * Listing interface
+ * A single job posting row from a README table
+ */
+export interface Listing {
+  company: string;
+  title: string;
+  location: string; // Locations joined with ", "
+  applicationLink?: string;
+  createdAt?: number; // Posting date, when the table has a date/age column
+  closed: boolean; // Whether the posting is marked as closed (🔒 or struck through)
+  term?: string; // Internship term (e.g. "Summer 2026"), when the row names one
+  sponsorship: Sponsorship;
+  isFaang: boolean; // Whether the company is marked FAANG+ (🔥)
+  degreeLevel: DegreeLevel;
+}
+
+/**
+ * Column mapping interface
+ * Maps listing fields to column indices of a table
+ */
+interface ListingColumns {
+  company?: number;
+  title?: number;
+  location?: number;
+  application?: number;
+  term?: number;
+  date?: number;
+}
+
+// Header keywords for each listing field, checked in order
+const COLUMN_KEYWORDS: [keyof ListingColumns, RegExp][] = [
+  ["company", /company|employer/],
+  ["title", /role|position|title|job/],
+  ["location", /location|office|city/],
+  ["application", /application|apply|link/],
+  ["term", /term|season/],
+  ["date", /date|age|posted|added/],
+];
+
+// Column order assumed for tables without a header row
+const DEFAULT_COLUMNS: ListingColumns = {
+  company: 0,
+  title: 1,
+  location: 2,
+  application: 3,
+  date: 4,
+};
+
+// Marker the lists use for postings that no longer accept applications
+const CLOSED_MARKER = "🔒";
+
+// Strikethrough markup, which some lists use for closed postings instead
+const STRIKETHROUGH = /~~[\s\S]+?~~|<(s|del|strike)\b/i;
+
+// Marker the lists use for "same company as the row above"
+const CONTINUATION_MARKER = "↳";
+
+// Markers the lists use for posting details
+const NO_SPONSORSHIP_MARKER = "🛂";
+const US_CITIZENS_MARKER = "🇺🇸";
+const FAANG_MARKER = "🔥";
+const ADVANCED_DEGREE_MARKER = "🎓";
+
+// Term names in titles and term columns ("Summer 2026", "Fall '25")
+const TERM = /\b(summer|fall|autumn|winter|spring)\b\s*(?:'|20)?(\d{2})?\b/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days per unit of a relative age ("1h", "2w", "3 weeks"); months are
+// approximated as 30 days
+const AGE_UNIT_DAYS = new Map<string, number>([
+  ...["h", "hr", "hrs", "hour", "hours"].map((unit) => [unit, 1 / 24] as const),
+  ...["d", "day", "days"].map((unit) => [unit, 1] as const),
+  ...["w", "wk", "wks", "week", "weeks"].map((unit) => [unit, 7] as const),
+  ...["mo", "mos", "month", "months"].map((unit) => [unit, 30] as const),
+]);
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+// Named HTML entities that appear in the lists
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Removes emojis from text content
+ *
+ * GitHub README files often contain emojis that need to be cleaned
+ * from job titles and descriptions for better data processing.
+ *
+ * @param text - Input text that may contain emojis
+ * @returns Cleaned text with emojis removed
+ */
+export function removeEmojis(text: string): string {
+  // Unicode ranges for various emoji categories
+  const emojiRegex =
+    /[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]|[\u{1F900}-\u{1F9FF}]|[\u{1F018}-\u{1F0F5}]|[\u{1F200}-\u{1F2FF}]|[\u{1FA70}-\u{1FAFF}]|[\u{1F004}]|[\u{1F0CF}]|[\u{1F170}-\u{1F251}]/gu;
+  return text.replace(emojiRegex, "").trim();
+}
+
+/**
+ * Decodes named and numeric HTML entities
+ *
+ * @param text - Text that may contain entities (e.g. "AT&amp;T")
+ * @returns Decoded text
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code) => {
+    if (code.startsWith("#")) {
+      const hex = code[1].toLowerCase() === "x";
+      const value = parseInt(code.slice(hex ? 2 : 1), hex ? 16 : 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Converts cell markup (HTML and/or Markdown) to plain text
+ *
+ * Line breaks (<br>) and block elements become newlines, tags and Markdown
+ * emphasis are removed, and links and images are replaced by their text.
+ *
+ * @param html - Raw cell content
+ * @returns Plain text with one trimmed, non-empty line per visual line
+ */
+function toText(html: string): string {
+  const stripped = html
+    .replace(/<br\s*\/?>|<\/br>/gi, "\n")
+    .replace(/<\/(p|div|li|summary)>/gi, "\n")
+    .replace(/<img\b[^>]*?alt\s*=\s*(["'])(.*?)\1[^>]*>/gi, "$2")
+    .replace(/<[^>]*>/g, "")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\*\*|__|~~|`/g, "");
+
+  return decodeEntities(stripped)
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Extracts the links in cell markup, in order of appearance
+ *
+ * Finds HTML anchors and Markdown links (including linked images such as
+ * "Apply" buttons); plain Markdown images are not links.
+ *
+ * @param html - Raw cell content
+ * @returns Links with their text
+ */
+function extractLinks(html: string): CellLink[] {
+  const links: { index: number; link: CellLink }[] = [];
+
+  const anchorRegex =
+    /<a\b[^>]*?href\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi;
+  for (const match of html.matchAll(anchorRegex)) {
+    links.push({
+      index: match.index ?? 0,
+      link: { href: decodeEntities(match[2].trim()), text: toText(match[3]) },
+    });
+  }
+
+  const markdownRegex =
+    /(!?)\[((?:!\[[^\]]*\]\([^)]*\)|[^\]])*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+  for (const match of html.matchAll(markdownRegex)) {
+    if (match[1] === "!") continue;
+    links.push({
+      index: match.index ?? 0,
+      link: { href: match[3], text: toText(match[2]) },
+    });
+  }
+
+  return links.sort((a, b) => a.index - b.index).map(({ link }) => link);
+}
+
+/**
+ * Builds a table cell from its raw content
+ */
+function toCell(html: string): TableCell {
+  return { html, text: toText(html), links: extractLinks(html) };
+}
+
+/**
+ * Parses every HTML table in the content
+ *
+ * Scans for table structure tags instead of matching whole rows, so rows
+ * and cells may span any number of lines and contain arbitrary markup.
+ * Unclosed <td>/<tr> tags are closed implicitly, as browsers do, and tables
+ * nested inside a cell are kept as part of that cell's content.
+ *
+ * @param content - README content
+ * @returns Parsed tables in document order
+ */
+function parseHtmlTables(content: string): ReadmeTable[] {
+  const tables: ReadmeTable[] = [];
+  const tagRegex = /<(\/?)(table|thead|tr|th|td)\b[^>]*>/gi;
+
+  let table: ReadmeTable | null = null;
+  let row: { cells: TableCell[]; header: boolean } | null = null;
+  let cellStart = -1;
+  let inHead = false;
+  let nested = 0;
+
+  const closeCell = (end: number) => {
+    if (row && cellStart !== -1) {
+      row.cells.push(toCell(content.slice(cellStart, end)));
+    }
+    cellStart = -1;
+  };
+  const closeRow = (end: number) => {
+    closeCell(end);
+    if (table && row && row.cells.length > 0) {
+      if (row.header && table.headers.length === 0) {
+        table.headers = row.cells.map((cell) => cell.text.replace(/\n/g, " "));
+      } else {
+        table.rows.push(row.cells);
+      }
+    }
+    row = null;
+  };
+
+  for (const match of content.matchAll(tagRegex)) {
+    const index = match.index ?? 0;
+    const closing = match[1] === "/";
+    const tag = match[2].toLowerCase();
+
+    // Tables nested in a cell are cell content
+    if (nested > 0 || (tag === "table" && !closing && cellStart !== -1)) {
+      if (tag === "table") nested += closing ? -1 : 1;
+      continue;
+    }
+
+    if (tag === "table") {
+      if (!closing) {
+        table = { headers: [], rows: [] };
+      } else if (table) {
+        closeRow(index);
+        tables.push(table);
+        table = null;
+      }
+      continue;
+    }
+    if (!table) continue;
+
+    if (tag === "thead") {
+      inHead = !closing;
+    } else if (tag === "tr") {
+      closeRow(index);
+      if (!closing) row = { cells: [], header: inHead };
+    } else if (closing) {
+      closeCell(index);
+    } else {
+      // Opening <td>/<th>; a row may omit its <tr>
+      closeCell(index);
+      if (!row) row = { cells: [], header: inHead };
+      if (tag === "th") row.header = true;
+      cellStart = index + match[0].length;
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Splits a Markdown table row into raw cell contents
+ *
+ * Pipes escaped as "\|" or inside code spans don't split cells.
+ *
+ * @param line - Table row line
+ * @returns Raw cell contents
+ */
+function splitMarkdownRow(line: string): string[] {
+  let body = line.trim();
+  if (body.startsWith("|")) body = body.slice(1);
+  if (body.endsWith("|") && !body.endsWith("\\|")) body = body.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = "";
+  let inCode = false;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === "\\" && body[i + 1] === "|") {
+      cell += "|";
+      i++;
+    } else if (char === "|" && !inCode) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      if (char === "`") inCode = !inCode;
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+
+  return cells;
+}
+
+/**
+ * Parses every Markdown (GFM) table in the content
+ *
+ * A table is a header row followed by a delimiter row (e.g. "|---|:-:|"),
+ * then body rows until the first line without a pipe.
+ *
+ * @param content - README content
+ * @returns Parsed tables in document order
+ */
+function parseMarkdownTables(content: string): ReadmeTable[] {
+  const tables: ReadmeTable[] = [];
+  const lines = content.split(/\r?\n/);
+  const delimiterRow = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (!lines[i].includes("|") || !delimiterRow.test(lines[i + 1].trim())) {
+      continue;
+    }
+
+    const table: ReadmeTable = {
+      headers: splitMarkdownRow(lines[i]).map((cell) => toText(cell)),
+      rows: [],
+    };
+    let j = i + 2;
+    for (; j < lines.length && lines[j].includes("|"); j++) {
+      table.rows.push(splitMarkdownRow(lines[j]).map(toCell));
+    }
+
+    tables.push(table);
+    i = j - 1;
+  }
+
+  return tables;
+}
+
+/**
+ * Parses all HTML and Markdown tables in README content
+ *
+ * HTML comments are ignored, so commented-out tables don't produce rows.
+ *
+ * @param content - README content
+ * @returns Parsed tables (HTML tables first, then Markdown tables)
+ */
+export function parseTables(content: string): ReadmeTable[] {
+  const uncommented = content.replace(/<!--[\s\S]*?-->/g, "");
+  return [...parseHtmlTables(uncommented), ...parseMarkdownTables(uncommented)];
+}
+
+/**
+ * Maps a table's header row to listing fields
+ *
+ * @param headers - Header cell texts (empty for tables without a header)
+ * @returns Mapping of listing fields to column indices
+ */
+function detectListingColumns(headers: string[]): ListingColumns {
+  if (headers.length === 0) return DEFAULT_COLUMNS;
+
+  const columns: ListingColumns = {};
+  headers.forEach((header, index) => {
+    const normalized = header.toLowerCase();
+    const field = COLUMN_KEYWORDS.find(
+      ([field, keywords]) =>
+        columns[field] === undefined && keywords.test(normalized),
+    )?.[0];
+    if (field) columns[field] = index;
+  });
+
+  return columns;
+}
+
+/**
+ * Parses the posting date of a listing
+ *
+ * Supports month-day dates ("Sep 24") and relative ages ("1h", "0d",
+ * "2w", "3 weeks", "1mo"); ages in other units aren't dates. Month-day dates have no year, so they are placed in the most
+ * recent year that doesn't put them in the future: "Dec 28" read on
+ * January 3rd is last year's December 28th.
+ *
+ * @param text - Date or age cell text
+ * @param now - Reference timestamp for years and ages (defaults to now)
+ * @returns Timestamp, or undefined if the text isn't a date
+ */
+export function parseListingDate(
+  text: string,
+  now: number = Date.now(),
+): number | undefined {
+  const dateMatch = text.match(/([A-Za-z]{3})[a-z]*\.?\s+(\d{1,2})/);
+  const month = dateMatch ? MONTHS.indexOf(dateMatch[1].toLowerCase()) : -1;
+  if (dateMatch && month !== -1) {
+    const day = parseInt(dateMatch[2]);
+    const year = new Date(now).getFullYear();
+    const date = new Date(year, month, day).getTime();
+    // Allow a day of slack for lists updated in earlier time zones
+    return date > now + DAY_MS
+      ? new Date(year - 1, month, day).getTime()
+      : date;
+  }
+
+  const ageMatch = text.match(/(\d+)\s*([a-zA-Z]+)/);
+  const unitDays = ageMatch && AGE_UNIT_DAYS.get(ageMatch[2].toLowerCase());
+  if (ageMatch && unitDays) {
+    return now - parseInt(ageMatch[1]) * unitDays * DAY_MS;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses the internship term named in a text
+ *
+ * @param text - Term cell or title text
+ * @returns Term as "Season YYYY" or "Season", or undefined if none is named
+ */
+export function parseTerm(text: string): string | undefined {
+  const match = text.match(TERM);
+  if (!match) return undefined;
+
+  const name = match[1].toLowerCase() === "autumn" ? "fall" : match[1];
+  const season = name[0].toUpperCase() + name.slice(1).toLowerCase();
+  return match[2] ? `${season} 20${match[2]}` : season;
+}
+
+/**
+ * Determines the minimum degree a posting requires
+ *
+ * PhD and master's roles are recognized from the title; other postings
+ * marked 🎓 (advanced degree required) count as master's level.
+ *
+ * @param title - Job title
+ * @param advancedDegree - Whether the row is marked 🎓
+ * @returns Degree level
+ */
+function getDegreeLevel(title: string, advancedDegree: boolean): DegreeLevel {
+  if (/\bph\.?\s?d\b|doctoral/i.test(title)) return "phd";
+  if (advancedDegree || /\bmaster'?s\b|\bmba\b/i.test(title)) {
+    return "masters";
+  }
+  return "bachelors";
+}
+
+/**
+ * Extracts the locations of a location cell
+ *
+ * Lists collapse long location lists into
+ * "<details><summary>5 locations</summary>A</br>B</details>"; the summary
+ * line is dropped in that case.
+ *
+ * @param cell - Location cell
+ * @returns Locations joined with ", "
+ */
+function getLocation(cell: TableCell | undefined): string {
+  if (!cell) return "";
+
+  const html = cell.html.replace(/<summary\b[\s\S]*?<\/summary>/gi, "");
+  return toText(html).split("\n").join(", ");
+}
+
+/**
+ * Parses the job listings in README content
+ *
+ * Only tables with company and title columns are used. Rows without a
+ * company or title are skipped; closed postings are returned with `closed`
+ * set so callers can decide what to do with them.
+ *
+ * @param content - README content
+ * @param now - Reference timestamp for relative dates (defaults to now)
+ * @returns Listings in document order
+ */
+export function parseListings(
+  content: string,
+  now: number = Date.now(),
+): Listing[] {
+  const listings: Listing[] = [];
+
+  for (const table of parseTables(content)) {
+    const columns = detectListingColumns(table.headers);
+    if (columns.company === undefined || columns.title === undefined) {
+      continue;
+    }
+
+    const headerTexts = table.headers.map((header) => header.toLowerCase());
+    let lastCompany = "";
+    let lastIsFaang = false;
+
+    for (const row of table.rows) {
+      const cell = (index: number | undefined) =>
+        index === undefined ? undefined : row[index];
+      const companyCell = cell(columns.company);
+      const titleCell = cell(columns.title);
+      const applicationCell = cell(columns.application);
+      if (!companyCell || !titleCell) continue;
+
+      // Skip header rows repeated inside the table body
+      if (headerTexts[columns.company] === companyCell.text.toLowerCase()) {
+        continue;
+      }
+
+      const hasMarker = (marker: string) =>
+        row.some((c) => c.text.includes(marker));
+      const closed =
+        hasMarker(CLOSED_MARKER) ||
+        STRIKETHROUGH.test(companyCell.html) ||
+        STRIKETHROUGH.test(titleCell.html);
+
+      // Handle continuation symbol ↳ for multi-row entries, which also
+      // inherit the company's FAANG+ marker
+      let company = removeEmojis(companyCell.text.replace(/\n/g, " "));
+      let isFaang = companyCell.text.includes(FAANG_MARKER);
+      if (company === CONTINUATION_MARKER) {
+        company = lastCompany;
+        isFaang = lastIsFaang;
+      } else {
+        lastCompany = company;
+        lastIsFaang = isFaang;
+      }
+
+      const title = removeEmojis(titleCell.text.replace(/\n/g, " "));
+      if (!company || !title) continue;
+
+      // Prefer the application column's link, then the company's link
+      const applicationLink =
+        applicationCell?.links[0]?.href ?? companyCell.links[0]?.href;
+      const dateCell = cell(columns.date);
+      const termCell = cell(columns.term);
+
+      listings.push({
+        company,
+        title,
+        location: getLocation(cell(columns.location)),
+        applicationLink,
+        createdAt: dateCell ? parseListingDate(dateCell.text, now) : undefined,
+        closed,
+        term: (termCell && parseTerm(termCell.text)) ?? parseTerm(title),
+        sponsorship: hasMarker(US_CITIZENS_MARKER)
+          ? "us_citizens_only"
+          : hasMarker(NO_SPONSORSHIP_MARKER)
+            ? "no_sponsorship"
+            : "unrestricted",
+        isFaang,
+        degreeLevel: getDegreeLevel(title, hasMarker(ADVANCED_DEGREE_MARKER)),
+      });
+    }
+  }
+
+  return listings;
+}
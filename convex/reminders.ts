@@ -0,0 +1,241 @@
+import { v, Infer } from "convex/values";
+import { internalMutation, mutation, MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { reminderEntry } from "./unions";
+import { clearNotification, notify } from "./notifications";
+
+/**
+ * Follow-up Reminders
+ *
+ * This module manages follow-up reminders on applications, so applications
+ * waiting on a recruiter get chased. Reminders are stored on the application
+ * ordered by due time; `followUpAt` mirrors the next reminder that isn't due
+ * yet, so the scheduler (see crons.ts) finds reminders coming due through an
+ * index. Due reminders are notified in the dashboard bell and stay due until
+ * they are completed or snoozed.
+ */
+
+export type Reminder = Infer<typeof reminderEntry>;
+
+// Most reminders per application
+const MAX_REMINDERS = 10;
+
+// Number of applications flipped per flipDueReminders batch
+const BATCH_SIZE = 200;
+
+/**
+ * Returns the due time of the next reminder that isn't due yet
+ *
+ * @param reminders - Reminders of an application
+ * @returns Earliest due time, or undefined if every reminder is due
+ */
+export function getNextFollowUp(reminders: Reminder[]): number | undefined {
+  const pending = reminders.filter((reminder) => !reminder.isDue);
+  return pending.length > 0
+    ? Math.min(...pending.map((reminder) => reminder.at))
+    : undefined;
+}
+
+/**
+ * Stores an application's reminders and keeps `followUpAt` in sync
+ *
+ * Clears the follow-up notification once no reminder is due anymore.
+ *
+ * @param ctx - Mutation context
+ * @param application - Application the reminders belong to
+ * @param reminders - New reminders, in any order
+ */
+async function saveReminders(
+  ctx: MutationCtx,
+  application: Doc<"applications">,
+  reminders: Reminder[],
+): Promise<void> {
+  const sorted = [...reminders].sort((a, b) => a.at - b.at);
+  await ctx.db.patch(application._id, {
+    reminders: sorted,
+    followUpAt: getNextFollowUp(sorted),
+  });
+
+  if (!sorted.some((reminder) => reminder.isDue)) {
+    await clearNotification(
+      ctx,
+      application.userId,
+      `followup:${application._id}`,
+    );
+  }
+}
+
+/**
+ * Adds a follow-up reminder to an application
+ *
+ * @param id - Application ID
+ * @param at - When the reminder is due
+ * @param note - What to follow up on (optional)
+ */
+export const addReminder = mutation({
+  args: {
+    id: v.id("applications"),
+    at: v.number(),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    // Verify the application exists and belongs to the user
+    const application = await ctx.db.get(args.id);
+    if (application?.userId !== userId) {
+      throw new Error("Client is not authorized to update this application!");
+    }
+
+    const reminders = application.reminders ?? [];
+    if (reminders.length >= MAX_REMINDERS) {
+      throw new Error(
+        `Cannot add more than ${MAX_REMINDERS} reminders to an application!`,
+      );
+    }
+
+    await saveReminders(ctx, application, [
+      ...reminders,
+      {
+        id: crypto.randomUUID(),
+        at: args.at,
+        note: args.note?.trim() || undefined,
+        isDue: false,
+      },
+    ]);
+  },
+});
+
+/**
+ * Snoozes a reminder, so it comes due again later
+ *
+ * @param id - Application ID
+ * @param reminderId - Reminder to snooze
+ * @param until - When the reminder is due again
+ */
+export const snoozeReminder = mutation({
+  args: {
+    id: v.id("applications"),
+    reminderId: v.string(),
+    until: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    // Verify the application exists and belongs to the user
+    const application = await ctx.db.get(args.id);
+    if (application?.userId !== userId) {
+      throw new Error("Client is not authorized to update this application!");
+    }
+
+    const reminders = application.reminders ?? [];
+    if (!reminders.some((reminder) => reminder.id === args.reminderId)) {
+      throw new Error("Reminder not found!");
+    }
+    if (args.until <= Date.now()) {
+      throw new Error("Reminders can only be snoozed into the future!");
+    }
+
+    await saveReminders(
+      ctx,
+      application,
+      reminders.map((reminder) =>
+        reminder.id === args.reminderId
+          ? { ...reminder, at: args.until, isDue: false }
+          : reminder,
+      ),
+    );
+  },
+});
+
+/**
+ * Completes (removes) a reminder
+ *
+ * @param id - Application ID
+ * @param reminderId - Reminder to complete
+ */
+export const completeReminder = mutation({
+  args: {
+    id: v.id("applications"),
+    reminderId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    // Verify the application exists and belongs to the user
+    const application = await ctx.db.get(args.id);
+    if (application?.userId !== userId) {
+      throw new Error("Client is not authorized to update this application!");
+    }
+
+    await saveReminders(
+      ctx,
+      application,
+      (application.reminders ?? []).filter(
+        (reminder) => reminder.id !== args.reminderId,
+      ),
+    );
+  },
+});
+
+/**
+ * Flips reminders whose time has come to due (internal mutation)
+ *
+ * Runs every 15 minutes (see crons.ts). Owners are notified once per
+ * application, however many of its reminders came due. Works in batches and
+ * reschedules itself while applications are left.
+ */
+export const flipDueReminders = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    // Lower bound skips applications without reminders (followUpAt unset)
+    const applications = await ctx.db
+      .query("applications")
+      .withIndex("by_followUpAt", (q) =>
+        q.gte("followUpAt", 0).lte("followUpAt", now),
+      )
+      .take(BATCH_SIZE);
+
+    for (const application of applications) {
+      const reminders = application.reminders ?? [];
+      const newlyDue = reminders.filter(
+        (reminder) => !reminder.isDue && reminder.at <= now,
+      );
+      const flipped = reminders.map((reminder) =>
+        newlyDue.includes(reminder) ? { ...reminder, isDue: true } : reminder,
+      );
+
+      await ctx.db.patch(application._id, {
+        reminders: flipped,
+        followUpAt: getNextFollowUp(flipped),
+      });
+      if (newlyDue.length > 0) {
+        await notify(ctx, {
+          userId: application.userId,
+          kind: "follow_up",
+          key: `followup:${application._id}`,
+          title: `Follow up with ${application.company}`,
+          body: newlyDue[0].note ?? application.title,
+          applicationId: application._id,
+        });
+      }
+    }
+
+    // Continue while a full batch came due
+    if (applications.length === BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.reminders.flipDueReminders, {});
+    }
+  },
+});
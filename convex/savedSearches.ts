@@ -0,0 +1,193 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { opportunityFilters } from "./unions";
+import { matchesFilters, matchesSearch } from "./opportunities";
+import { clearNotification, notify, readNotification } from "./notifications";
+
+/**
+ * Saved Searches
+ *
+ * This module stores named opportunity filters per user, so a filter
+ * combination survives a refresh and can be re-applied in one click. After
+ * each scrape, the new opportunities are checked against every saved search
+ * and the matches are counted (and notified) until the user opens the
+ * search again.
+ */
+
+// Most saved searches a user can keep
+const MAX_SAVED_SEARCHES = 20;
+
+// Number of saved searches checked per notifyNewMatches batch
+const BATCH_SIZE = 200;
+
+/**
+ * Retrieves the saved searches of the authenticated user
+ *
+ * @returns Saved searches ordered by name, with their unseen match counts
+ */
+export const getSavedSearches = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return [];
+    }
+
+    const savedSearches = await ctx.db
+      .query("savedSearches")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+    return savedSearches.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+/**
+ * Saves the current opportunity filters under a name
+ *
+ * @param name - Display name of the search
+ * @param filters - Opportunity filters to save
+ * @returns The ID of the saved search
+ */
+export const createSavedSearch = mutation({
+  args: {
+    name: v.string(),
+    filters: opportunityFilters,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Saved search name is required!");
+    }
+
+    const savedSearches = await ctx.db
+      .query("savedSearches")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+    if (savedSearches.length >= MAX_SAVED_SEARCHES) {
+      throw new Error(`Cannot save more than ${MAX_SAVED_SEARCHES} searches!`);
+    }
+
+    return await ctx.db.insert("savedSearches", {
+      userId,
+      name,
+      filters: args.filters,
+      newMatchCount: 0,
+      lastSeenAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Marks the new matches of a saved search as seen
+ *
+ * Called when the user applies the search to the opportunities list.
+ *
+ * @param id - Saved search ID
+ */
+export const markSavedSearchSeen = mutation({
+  args: { id: v.id("savedSearches") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    // Verify the saved search exists and belongs to the user
+    const savedSearch = await ctx.db.get(args.id);
+    if (savedSearch?.userId !== userId) {
+      throw new Error("Client is not authorized to update this saved search!");
+    }
+
+    await ctx.db.patch(args.id, { newMatchCount: 0, lastSeenAt: Date.now() });
+    await readNotification(ctx, userId, `matches:${args.id}`);
+  },
+});
+
+/**
+ * Deletes a saved search
+ *
+ * @param id - Saved search ID to delete
+ */
+export const deleteSavedSearch = mutation({
+  args: { id: v.id("savedSearches") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    // Verify the saved search exists and belongs to the user
+    const savedSearch = await ctx.db.get(args.id);
+    if (savedSearch?.userId !== userId) {
+      throw new Error("Client is not authorized to delete this saved search!");
+    }
+
+    await ctx.db.delete(args.id);
+    await clearNotification(ctx, userId, `matches:${args.id}`);
+  },
+});
+
+/**
+ * Counts new opportunities matching each saved search (internal mutation)
+ *
+ * Scheduled by `upsertOpportunities` with the opportunities a scrape added.
+ * Owners of matching searches are notified of the unseen matches. Works in
+ * batches and reschedules itself until every saved search was checked.
+ *
+ * @param opportunityIds - IDs of the opportunities just added
+ * @param cursor - Pagination cursor for the next batch (omit to start)
+ */
+export const notifyNewMatches = internalMutation({
+  args: {
+    opportunityIds: v.array(v.id("opportunities")),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const opportunities = [];
+    for (const id of args.opportunityIds) {
+      const opportunity = await ctx.db.get(id);
+      if (opportunity) opportunities.push(opportunity);
+    }
+    if (opportunities.length === 0) return;
+
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("savedSearches")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const savedSearch of page) {
+      const matches = opportunities.filter(
+        (opportunity) =>
+          matchesSearch(opportunity.title, savedSearch.filters.search) &&
+          matchesFilters(opportunity, savedSearch.filters),
+      ).length;
+      if (matches > 0) {
+        const newMatchCount = savedSearch.newMatchCount + matches;
+        await ctx.db.patch(savedSearch._id, { newMatchCount });
+        await notify(ctx, {
+          userId: savedSearch.userId,
+          kind: "new_matches",
+          key: `matches:${savedSearch._id}`,
+          title: `${newMatchCount} new ${
+            newMatchCount === 1 ? "posting matches" : "postings match"
+          } "${savedSearch.name}"`,
+          savedSearchId: savedSearch._id,
+        });
+      }
+    }
+
+    // Continue with the next batch until every saved search was checked
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.savedSearches.notifyNewMatches, {
+        opportunityIds: args.opportunityIds,
+        cursor: continueCursor,
+      });
+    }
+  },
+});
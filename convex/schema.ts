@@ -1,7 +1,20 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
-import { statusUnion } from "./unions";
+import {
+  degreeLevelUnion,
+  eventKindUnion,
+  historyEntry,
+  locationEntry,
+  notificationKindUnion,
+  opportunityFacetUnion,
+  opportunityFilters,
+  reminderEntry,
+  scrapeRunStatusUnion,
+  sourceParserUnion,
+  sponsorshipUnion,
+  statusUnion,
+} from "./unions";
 
 /**
  * Database Schema Definition
@@ -15,6 +28,16 @@ import { statusUnion } from "./unions";
  * - users: Extended user profile information
  * - applications: Job application tracking data
  * - opportunities: Job opportunities from various sources
+ * - opportunityFacets: Counts of open, fresh opportunities per posting detail
+ * - opportunityPlaces: Opportunities by place, for filtering by location and work mode
+ * - companies: Canonical companies that opportunities and applications belong to
+ * - companyAliases: Normalized company names, for matching names to companies
+ * - sources: Registry of GitHub lists the scraper reads opportunities from
+ * - scrapeRuns: Log of scrape runs per source
+ * - savedSearches: Named opportunity filters per user
+ * - notifications: In-app notifications per user
+ * - events: Scheduled interviews and deadlines per application
+ * - uploads: Import files in storage and the users who uploaded them
  */
 export default defineSchema({
   // Include authentication tables from Convex Auth
@@ -36,10 +59,15 @@ export default defineSchema({
     isAnonymous: v.optional(v.boolean()), // Whether user is anonymous
     sub: v.optional(v.union(v.literal("basic"), v.literal("pro"))), // Subscription tier
     customerId: v.optional(v.string()), // Payment provider customer ID
+    calendarToken: v.optional(v.string()), // Secret token for the calendar feed URL
+    digestOptIn: v.optional(v.boolean()), // Whether the user receives the weekly email digest
+    lastDigestAt: v.optional(v.number()), // When the last weekly digest was sent
   })
     .index("email", ["email"]) // Index for email lookups
     .index("phone", ["phone"]) // Index for phone lookups
-    .index("customerId", ["customerId"]), // Index for payment lookups
+    .index("customerId", ["customerId"]) // Index for payment lookups
+    .index("calendarToken", ["calendarToken"]) // Index for calendar feed lookups
+    .index("digestOptIn", ["digestOptIn"]), // Index for digest recipients
 
   /**
    * Applications Table
@@ -50,15 +78,25 @@ export default defineSchema({
   applications: defineTable({
     userId: v.id("users"), // Owner of the application
     company: v.string(), // Company name
+    companyId: v.optional(v.id("companies")), // Company the name belongs to (see companies.ts)
     title: v.string(), // Job title/position
     status: statusUnion, // Current application status
-    history: v.optional(v.array(statusUnion)), // Previous statuses (chronological)
+    history: v.optional(v.array(statusUnion)), // Legacy bare status history (see migrations.ts)
+    statusHistory: v.optional(v.array(historyEntry)), // Timestamped status transitions (newest first)
     notes: v.optional(v.string()), // User notes about the application
     link: v.optional(v.string()), // Job posting URL
     dashboardLink: v.optional(v.string()), // Application dashboard URL
     lastUpdated: v.optional(v.number()), // Last modification timestamp
     opportunityId: v.optional(v.id("opportunities")), // Link to source opportunity
-  }).index("by_userId", ["userId"]), // Index for user's applications
+    opportunityClosedAt: v.optional(v.number()), // When the linked opportunity closed (unset while open)
+    reminders: v.optional(v.array(reminderEntry)), // Follow-up reminders (ordered by due time)
+    followUpAt: v.optional(v.number()), // Due time of the next reminder not yet due (see reminders.ts)
+    staleNotifiedAt: v.optional(v.number()), // When the user was last told it went stale (see notifications.ts)
+  })
+    .index("by_userId", ["userId"]) // Index for user's applications
+    .index("by_opportunityId", ["opportunityId"]) // Index for applications linked to an opportunity
+    .index("by_companyId", ["companyId"]) // Index for applications at a company
+    .index("by_followUpAt", ["followUpAt"]), // Index for reminders coming due
 
   /**
    * Opportunities Table
@@ -67,20 +105,238 @@ export default defineSchema({
    * Used to suggest applications to users and track job market data.
    */
   opportunities: defineTable({
-    company: v.string(), // Company name
+    key: v.optional(v.string()), // Stable identity from company + title (see getOpportunityKey)
+    company: v.string(), // Company name as listed
+    companyId: v.optional(v.id("companies")), // Company the name belongs to (see companies.ts)
     title: v.string(), // Job title
     link: v.optional(v.string()), // Job posting URL
     location: v.optional(v.string()), // Job location
+    locations: v.optional(v.array(locationEntry)), // Normalized locations parsed from `location` (see locationParser.ts)
     source: v.string(), // Source of the opportunity (e.g., "linkedin", "indeed")
     createdAt: v.number(), // When opportunity was discovered
+    isOpen: v.optional(v.boolean()), // Whether the posting still accepts applications (see migrations.ts)
+    closedAt: v.optional(v.number()), // When the posting was marked closed upstream
+    isStale: v.optional(v.boolean()), // Whether the posting is older than its source's freshness window
+    seenAt: v.optional(v.number()), // When a scrape of its source last listed the posting
+    term: v.optional(v.string()), // Internship term (e.g. "Summer 2026")
+    sponsorship: v.optional(sponsorshipUnion), // Work authorization requirements
+    isFaang: v.optional(v.boolean()), // Whether the company is marked FAANG+ (🔥)
+    degreeLevel: v.optional(degreeLevelUnion), // Minimum degree required
   })
     .index("by_createdAt", ["createdAt"]) // Index for chronological sorting
-    .index("by_company", ["company"]) // Index for company-based queries
+    .index("by_companyId_created", ["companyId", "createdAt"]) // Composite index for company + time
+    .index("by_key", ["key"]) // Index for matching scraped listings
     .index("by_source_created", ["source", "createdAt"]) // Composite index for source + time
+    .index("by_isOpen_created", ["isOpen", "createdAt"]) // Composite index for open/closed + time
     .searchIndex("search_title", {
       // Full-text search on job titles
       searchField: "title",
-      filterFields: ["source"],
+      filterFields: [
+        "companyId",
+        "source",
+        "isOpen",
+        "isStale",
+        "term",
+        "sponsorship",
+        "isFaang",
+        "degreeLevel",
+      ],
       staged: false,
     }),
+
+  /**
+   * Opportunity Facets Table
+   *
+   * Number of open, fresh opportunities per posting detail value, shown by
+   * the opportunities filter. Kept up to date as opportunities are added,
+   * updated, closed and aged out (see facets.ts).
+   */
+  opportunityFacets: defineTable({
+    facet: opportunityFacetUnion, // Posting detail counted
+    value: v.string(), // Detail value (e.g. "New York, NY", "remote", "Summer 2026")
+    count: v.number(), // Open, fresh opportunities with the value
+  })
+    .index("by_facet_value", ["facet", "value"]) // Index for updating a value's count
+    .index("by_facet_count", ["facet", "count"]), // Index for a facet's most common values
+
+  /**
+   * Opportunity Places Table
+   *
+   * One row per opportunity and place it's listed in, plus one row with an
+   * empty place for every opportunity, so the location and work mode
+   * filters are applied by the database before paginating. Copies the
+   * opportunity's other filterable fields (see places.ts).
+   */
+  opportunityPlaces: defineTable({
+    opportunityId: v.id("opportunities"), // Opportunity the row belongs to
+    place: v.string(), // Lowercased location filter value (see getLocationKeys), "" for every opportunity
+    title: v.string(), // Job title
+    companyId: v.optional(v.id("companies")), // Company the opportunity belongs to
+    source: v.string(), // Source of the opportunity
+    createdAt: v.number(), // When opportunity was discovered
+    isOpen: v.boolean(), // Whether the posting still accepts applications
+    isStale: v.boolean(), // Whether the posting is older than its source's freshness window
+    term: v.optional(v.string()), // Internship term
+    sponsorship: v.optional(sponsorshipUnion), // Work authorization requirements
+    isFaang: v.boolean(), // Whether the company is marked FAANG+
+    degreeLevel: v.optional(degreeLevelUnion), // Minimum degree required
+    isRemote: v.boolean(), // Whether any location is remote
+    isHybrid: v.boolean(), // Whether any location is hybrid
+    isOnsite: v.boolean(), // Whether any location is onsite
+  })
+    .index("by_opportunityId", ["opportunityId"]) // Index for an opportunity's rows
+    .index("by_place_created", ["place", "createdAt"]) // Composite index for place + time
+    .searchIndex("search_title", {
+      // Full-text search on job titles within a place
+      searchField: "title",
+      filterFields: [
+        "place",
+        "companyId",
+        "source",
+        "isOpen",
+        "isStale",
+        "term",
+        "sponsorship",
+        "isFaang",
+        "degreeLevel",
+        "isRemote",
+        "isHybrid",
+        "isOnsite",
+      ],
+      staged: false,
+    }),
+
+  /**
+   * Companies Table
+   *
+   * One record per company, so the same company listed under different
+   * spellings ("Google", "Google LLC") is filtered and counted once.
+   */
+  companies: defineTable({
+    name: v.string(), // Canonical display name (e.g. "Google")
+    aliases: v.array(v.string()), // Other names the company is listed under (e.g. "Google LLC")
+    domain: v.optional(v.string()), // Website domain (e.g. "google.com")
+    logoUrl: v.optional(v.string()), // Logo image URL
+    opportunityCount: v.number(), // Opportunities linked to the company
+  }).index("by_name", ["name"]), // Index for alphabetical listing
+
+  /**
+   * Company Aliases Table
+   *
+   * Maps normalized company names (see `normalizeCompanyName`) to their
+   * company. Every company has at least the key of its canonical name.
+   */
+  companyAliases: defineTable({
+    key: v.string(), // Normalized company name
+    companyId: v.id("companies"), // Company the name belongs to
+  })
+    .index("by_key", ["key"]) // Index for name lookups
+    .index("by_companyId", ["companyId"]), // Index for a company's names
+
+  /**
+   * Sources Table
+   *
+   * Registry of GitHub repositories the scraper reads opportunities from.
+   * Read by both the scrape cron and the opportunities UI, so new lists can
+   * be added without a code change (see sources.ts).
+   */
+  sources: defineTable({
+    key: v.string(), // Identifier stored in opportunities.source
+    label: v.string(), // Display name (e.g. "Simplify Summer 2026")
+    owner: v.string(), // GitHub username/organization
+    repo: v.string(), // Repository name
+    path: v.string(), // File path to scrape (typically README.md)
+    parser: sourceParserUnion, // Parser for the file's table format
+    enabled: v.boolean(), // Whether the scraper should read this source
+    intervalMinutes: v.optional(v.number()), // Minutes between scrapes (defaults to 60, see scraper.ts)
+    freshnessDays: v.optional(v.number()), // Days a posting counts as fresh (defaults to 14, see sources.ts)
+    defaultTerm: v.optional(v.string()), // Term for listings that don't name one (e.g. "Summer 2026")
+    lastSha: v.optional(v.string()), // Blob SHA of the last successfully scraped file
+  }).index("by_key", ["key"]), // Index for source lookups
+
+  /**
+   * Scrape Runs Table
+   *
+   * Log of scrape runs per source: whether the source changed and how many
+   * opportunities were added, updated, closed and reopened.
+   */
+  scrapeRuns: defineTable({
+    source: v.string(), // Source key (see sources table)
+    status: scrapeRunStatusUnion, // Outcome of the run
+    sha: v.optional(v.string()), // Blob SHA of the scraped file
+    added: v.number(), // Opportunities inserted
+    updated: v.number(), // Opportunities whose location, link or details changed
+    closed: v.number(), // Opportunities marked closed
+    reopened: v.number(), // Opportunities marked open again
+    error: v.optional(v.string()), // Error message for failed runs
+    startedAt: v.number(), // When the run started
+    finishedAt: v.number(), // When the run finished
+  }).index("by_source_started", ["source", "startedAt"]), // Index for a source's recent runs
+
+  /**
+   * Saved Searches Table
+   *
+   * Named opportunity filters a user can re-apply. Each scrape checks new
+   * opportunities against them and counts the matches the user hasn't seen.
+   */
+  savedSearches: defineTable({
+    userId: v.id("users"), // Owner of the saved search
+    name: v.string(), // Display name (e.g. "Remote SWE in NYC")
+    filters: opportunityFilters, // Filters applied to the opportunities list
+    newMatchCount: v.number(), // New opportunities matching since the search was last opened
+    lastSeenAt: v.number(), // When the search was last opened
+  }).index("by_userId", ["userId"]), // Index for user's saved searches
+
+  /**
+   * Notifications Table
+   *
+   * In-app notifications shown in the dashboard's bell. Each has a key per
+   * subject (e.g. one per saved search), so a repeated event updates the
+   * existing notification instead of piling up new ones.
+   */
+  notifications: defineTable({
+    userId: v.id("users"), // Recipient of the notification
+    kind: notificationKindUnion, // What the notification is about
+    key: v.string(), // Subject of the notification (e.g. "closed:<applicationId>")
+    title: v.string(), // Headline (e.g. "Google closed a posting")
+    body: v.optional(v.string()), // Details (e.g. the job title)
+    applicationId: v.optional(v.id("applications")), // Application the notification is about
+    savedSearchId: v.optional(v.id("savedSearches")), // Saved search the notification is about
+    createdAt: v.number(), // When the notification was raised or last updated
+    readAt: v.optional(v.number()), // When the user read it (unset while unread)
+  })
+    .index("by_userId_created", ["userId", "createdAt"]) // Index for user's latest notifications
+    .index("by_userId_readAt", ["userId", "readAt"]) // Index for user's unread notifications
+    .index("by_userId_key", ["userId", "key"]), // Index for updating a notification by subject
+
+  /**
+   * Events Table
+   *
+   * Scheduled interviews and deadlines of an application (see events.ts).
+   * Times are stored in UTC along with the time zone they were scheduled in.
+   */
+  events: defineTable({
+    userId: v.id("users"), // Owner of the event
+    applicationId: v.id("applications"), // Application the event belongs to
+    kind: eventKindUnion, // Phone screen, OA deadline, onsite, offer deadline or other
+    startsAt: v.number(), // When the event starts or the deadline falls (UTC timestamp)
+    timeZone: v.string(), // IANA time zone it was scheduled in (e.g. "America/New_York")
+    location: v.optional(v.string()), // Address or room
+    videoLink: v.optional(v.string()), // Video call URL
+    notes: v.optional(v.string()), // User notes about the event
+  })
+    .index("by_userId_startsAt", ["userId", "startsAt"]) // Index for user's upcoming events
+    .index("by_applicationId", ["applicationId"]), // Index for an application's events
+
+  /**
+   * Uploads Table
+   *
+   * Import files uploaded to storage, with the user who uploaded them, so
+   * an import only reads or deletes the caller's own files (see import.ts).
+   */
+  uploads: defineTable({
+    storageId: v.id("_storage"), // Uploaded file
+    userId: v.id("users"), // User who uploaded the file
+    uploadedAt: v.number(), // When the upload was recorded
+  }).index("by_storageId", ["storageId"]), // Index for looking up a file's owner
 });
@@ -0,0 +1,113 @@
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import { DEFAULT_SCRAPE_INTERVAL_MINUTES } from "./sources";
+import { scrapeRunStatusUnion } from "./unions";
+import { isAdmin } from "./users";
+
+/**
+ * Scrape Run Log
+ *
+ * This module records the outcome of scraping each source: whether its file
+ * changed since the last run and what happened to the stored opportunities.
+ * A successful run also stores the file's blob SHA on the source, so the
+ * next scrape can skip the source while the file is unchanged.
+ *
+ * Admins can read the latest runs per source to tell when the feed is stale.
+ */
+
+/**
+ * Records the outcome of scraping a source (internal mutation)
+ *
+ * @param source - Source key
+ * @param status - Outcome of the run
+ * @param sha - Blob SHA of the scraped file (optional)
+ * @param added - Opportunities inserted (optional, defaults to 0)
+ * @param updated - Opportunities whose location, link or details changed (optional)
+ * @param closed - Opportunities marked closed (optional)
+ * @param reopened - Opportunities marked open again (optional)
+ * @param error - Error message for failed runs (optional)
+ * @param startedAt - When the run started
+ */
+export const recordScrapeRun = internalMutation({
+  args: {
+    source: v.string(),
+    status: scrapeRunStatusUnion,
+    sha: v.optional(v.string()),
+    added: v.optional(v.number()),
+    updated: v.optional(v.number()),
+    closed: v.optional(v.number()),
+    reopened: v.optional(v.number()),
+    error: v.optional(v.string()),
+    startedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("scrapeRuns", {
+      source: args.source,
+      status: args.status,
+      sha: args.sha,
+      added: args.added ?? 0,
+      updated: args.updated ?? 0,
+      closed: args.closed ?? 0,
+      reopened: args.reopened ?? 0,
+      error: args.error,
+      startedAt: args.startedAt,
+      finishedAt: Date.now(),
+    });
+
+    // Remember the scraped file so unchanged sources can be skipped
+    if (args.status === "success" && args.sha) {
+      const source = await ctx.db
+        .query("sources")
+        .withIndex("by_key", (q) => q.eq("key", args.source))
+        .unique();
+      if (source) {
+        await ctx.db.patch(source._id, { lastSha: args.sha });
+      }
+    }
+  },
+});
+
+/**
+ * Retrieves the latest scrape runs of each enabled source (admins only)
+ *
+ * "Unchanged" runs count as successful: the source was read and the stored
+ * opportunities are up to date with it.
+ *
+ * @returns Per source: its label, scrape interval, last run and when it was
+ * last scraped successfully; null if the user isn't an admin
+ */
+export const getScrapeStatus = query({
+  args: {},
+  handler: async (ctx) => {
+    if (!(await isAdmin(ctx))) return null;
+
+    const sources = await ctx.db.query("sources").collect();
+    const status = [];
+    for (const source of sources) {
+      if (!source.enabled) continue;
+
+      const lastRun = await ctx.db
+        .query("scrapeRuns")
+        .withIndex("by_source_started", (q) => q.eq("source", source.key))
+        .order("desc")
+        .first();
+      const lastSuccess = await ctx.db
+        .query("scrapeRuns")
+        .withIndex("by_source_started", (q) => q.eq("source", source.key))
+        .order("desc")
+        .filter((q) => q.neq(q.field("status"), "error"))
+        .first();
+
+      status.push({
+        source: source.key,
+        label: source.label,
+        intervalMinutes:
+          source.intervalMinutes ?? DEFAULT_SCRAPE_INTERVAL_MINUTES,
+        lastRun,
+        lastSuccessAt: lastSuccess?.finishedAt,
+      });
+    }
+
+    return status.sort((a, b) => a.label.localeCompare(b.label));
+  },
+});
@@ -0,0 +1,347 @@
+import { v } from "convex/values";
+import {
+  internalAction,
+  internalMutation,
+  mutation,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { Listing, parseListings } from "./readmeParser";
+import { DEFAULT_SCRAPE_INTERVAL_MINUTES, getStaleBefore } from "./sources";
+import { isAdmin } from "./users";
+
+/**
+ * Scheduled Scraper
+ *
+ * This module scrapes internship opportunities from the GitHub lists in the
+ * source registry (see sources.ts) and is the only writer of scraped
+ * opportunities. The tables in those lists are parsed by readmeParser.ts.
+ *
+ * Scraping runs inside Convex: a cron (see crons.ts) checks which sources
+ * are due according to their `intervalMinutes` and schedules one action per
+ * due source, so a slow or failing source doesn't hold up the others. Each
+ * run is logged in the scrapeRuns table.
+ *
+ * Set `GITHUB_TOKEN` in the Convex environment to raise GitHub's API rate
+ * limit; public lists can also be read without it.
+ */
+
+// Number of opportunities written per internal mutation
+const BATCH_SIZE = 500;
+
+// Tolerance for cron timing, so a source isn't skipped by a few seconds
+const SCHEDULE_SLACK_MS = 60 * 1000;
+
+/**
+ * Internship data parsed from a source, ready to store
+ */
+type ParsedSource = {
+  totalInternships: number;
+  internships: (Omit<Listing, "createdAt"> & { createdAt: number })[];
+};
+
+/**
+ * File metadata returned by GitHub's repository contents API
+ */
+type GitHubFile = {
+  type: string;
+  sha: string;
+  content?: string;
+  encoding?: string;
+  download_url: string | null;
+};
+
+/**
+ * Parsers for each source table format
+ * Keys match the `parser` field of registered sources
+ */
+const parsers: Record<
+  Doc<"sources">["parser"],
+  (content: string) => ParsedSource
+> = {
+  "vansh-markdown": parseVansh,
+  "simplify-html": parseSimplify,
+};
+
+/**
+ * Schedules a scrape of every enabled source that is due (internal mutation)
+ *
+ * A source is due when its last run, successful or not, started at least
+ * `intervalMinutes` ago. Called by the scrape cron (see crons.ts).
+ *
+ * @returns Number of sources scheduled
+ */
+export const scrapeDueSources = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const sources = await ctx.db.query("sources").collect();
+
+    let scheduled = 0;
+    for (const source of sources) {
+      if (!source.enabled) continue;
+
+      const lastRun = await ctx.db
+        .query("scrapeRuns")
+        .withIndex("by_source_started", (q) => q.eq("source", source.key))
+        .order("desc")
+        .first();
+      const intervalMs =
+        (source.intervalMinutes ?? DEFAULT_SCRAPE_INTERVAL_MINUTES) * 60 * 1000;
+      if (lastRun && now - lastRun.startedAt + SCHEDULE_SLACK_MS < intervalMs) {
+        continue;
+      }
+
+      await ctx.scheduler.runAfter(0, internal.scraper.scrapeSource, {
+        sourceId: source._id,
+      });
+      scheduled++;
+    }
+
+    return scheduled;
+  },
+});
+
+/**
+ * Schedules a scrape of every enabled source right away
+ *
+ * Lets admins refresh the feed without waiting for the sources' intervals.
+ * Files are re-parsed even if unchanged, so parser improvements reach
+ * stored opportunities.
+ *
+ * @returns Number of sources scheduled
+ */
+export const scrapeNow = mutation({
+  args: {},
+  handler: async (ctx) => {
+    if (!(await isAdmin(ctx))) {
+      throw new Error("Client is not an admin!");
+    }
+
+    const sources = await ctx.db.query("sources").collect();
+    const enabled = sources.filter((source) => source.enabled);
+    for (const source of enabled) {
+      await ctx.scheduler.runAfter(0, internal.scraper.scrapeSource, {
+        sourceId: source._id,
+        force: true,
+      });
+    }
+
+    return enabled.length;
+  },
+});
+
+/**
+ * Scrapes a single source and records the run (internal action)
+ *
+ * This function:
+ * 1. Fetches the source file's metadata from GitHub and skips files whose
+ *    blob SHA matches the last successful run, unless forced
+ * 2. Parses changed files with the source's parser, using the source's
+ *    default term for listings that don't name one
+ * 3. Upserts the listings in batches (see `opportunities.upsertOpportunities`),
+ *    flagging postings older than the source's freshness window as stale
+ * 4. Closes the source's open postings that are no longer listed (see
+ *    `opportunities.closeUnlistedOpportunities`)
+ * 5. Records the run, including the error message if any step failed
+ *
+ * @param sourceId - ID of the source to scrape
+ * @param force - Re-parse the file even if it is unchanged (optional)
+ */
+export const scrapeSource = internalAction({
+  args: { sourceId: v.id("sources"), force: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const source: Doc<"sources"> | null = await ctx.runQuery(
+      internal.sources.getSource,
+      { sourceId: args.sourceId },
+    );
+    if (!source || !source.enabled) return;
+
+    const startedAt = Date.now();
+    try {
+      const fileData = await fetchSourceFile(source);
+
+      // Skip sources whose file hasn't changed since the last run
+      if (!args.force && fileData.sha === source.lastSha) {
+        await ctx.runMutation(internal.scrapeRuns.recordScrapeRun, {
+          source: source.key,
+          status: "unchanged",
+          sha: fileData.sha,
+          startedAt,
+        });
+        return;
+      }
+
+      // Parse the content to extract internship data
+      const content = await getFileContent(fileData);
+      const internships = parsers[source.parser](content).internships.map(
+        (internship) => ({
+          ...internship,
+          term: internship.term ?? source.defaultTerm,
+        }),
+      );
+      const staleBefore = getStaleBefore(source, startedAt);
+
+      // Store opportunities in database
+      const counts = { added: 0, updated: 0, closed: 0, reopened: 0 };
+      for (let i = 0; i < internships.length; i += BATCH_SIZE) {
+        const batchCounts: typeof counts = await ctx.runMutation(
+          internal.opportunities.upsertOpportunities,
+          {
+            opportunities: internships.slice(i, i + BATCH_SIZE),
+            source: source.key,
+            staleBefore,
+          },
+        );
+        counts.added += batchCounts.added;
+        counts.updated += batchCounts.updated;
+        counts.closed += batchCounts.closed;
+        counts.reopened += batchCounts.reopened;
+      }
+
+      // Close postings removed from the list, unless parsing found nothing
+      // (e.g. the list changed its format)
+      if (internships.length > 0) {
+        let cursor: string | null = null;
+        let isDone = false;
+        while (!isDone) {
+          const page: {
+            closed: number;
+            continueCursor: string;
+            isDone: boolean;
+          } = await ctx.runMutation(
+            internal.opportunities.closeUnlistedOpportunities,
+            { source: source.key, seenBefore: startedAt, cursor },
+          );
+          counts.closed += page.closed;
+          cursor = page.continueCursor;
+          isDone = page.isDone;
+        }
+      }
+
+      await ctx.runMutation(internal.scrapeRuns.recordScrapeRun, {
+        source: source.key,
+        status: "success",
+        sha: fileData.sha,
+        startedAt,
+        ...counts,
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.scrapeRuns.recordScrapeRun, {
+        source: source.key,
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+        startedAt,
+      });
+    }
+  },
+});
+
+/**
+ * Fetches the metadata of a source's file from GitHub
+ *
+ * @param source - Registered source to fetch
+ * @returns File metadata from GitHub, including its blob SHA
+ */
+async function fetchSourceFile(source: Doc<"sources">): Promise<GitHubFile> {
+  const headers: Record<string, string> = {
+    Accept: "application/vnd.github+json",
+    "X-GitHub-Api-Version": "2022-11-28",
+  };
+  if (process.env.GITHUB_TOKEN) {
+    headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+  }
+
+  const fileName = `${source.owner}/${source.repo}/${source.path}`;
+  const response = await fetch(
+    `https://api.github.com/repos/${source.owner}/${source.repo}/contents/${source.path}`,
+    { headers },
+  );
+  if (!response.ok) {
+    throw new Error(`GitHub returned ${response.status} for ${fileName}`);
+  }
+
+  const fileData: GitHubFile | GitHubFile[] = await response.json();
+  if (Array.isArray(fileData) || fileData.type !== "file") {
+    throw new Error(`${fileName} is not a file`);
+  }
+
+  return fileData;
+}
+
+/**
+ * Decodes the content of a file fetched with `fetchSourceFile`
+ *
+ * @param fileData - File metadata from GitHub
+ * @returns Decoded file content
+ */
+async function getFileContent(fileData: GitHubFile): Promise<string> {
+  if (fileData.content && fileData.encoding === "base64") {
+    // Decode base64 encoded content (GitHub wraps it in lines)
+    const binary = atob(fileData.content.replace(/\s/g, ""));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  }
+  if (fileData.download_url) {
+    // Content is omitted for files over 1 MB, fetch it from the download URL
+    const response = await fetch(fileData.download_url);
+    return await response.text();
+  }
+
+  return fileData.content ?? "";
+}
+
+/**
+ * Selects the listings to store or update
+ *
+ * Every listing is kept, so stored opportunities are marked closed or seen
+ * (see `opportunities.closeUnlistedOpportunities`) even when their listing
+ * is closed or lost its application link; only open listings with a link
+ * are added. Listings of any age are kept; older ones are stored as stale
+ * rather than dropped.
+ *
+ * @param listings - Listings parsed from a README
+ * @param defaultCreatedAt - Date assumed for listings without one
+ * @returns Internships to store
+ */
+function selectInternships(
+  listings: Listing[],
+  defaultCreatedAt: number,
+): ParsedSource {
+  const internships = listings.map((listing) => ({
+    ...listing,
+    createdAt: listing.createdAt ?? defaultCreatedAt,
+  }));
+
+  return { totalInternships: internships.length, internships };
+}
+
+/**
+ * Parses internship data from vanshb03 repository content
+ *
+ * The vanshb03 lists use Markdown (older) or HTML tables with month-day
+ * dates ("Sep 24"). Rows without a date are treated as new.
+ *
+ * @param content - Raw README content from vanshb03 repository
+ * @returns Parsed internship data with metadata
+ */
+function parseVansh(content: string): ParsedSource {
+  return selectInternships(parseListings(content), Date.now());
+}
+
+/**
+ * Parses internship data from SimplifyJobs repository content
+ *
+ * The SimplifyJobs lists use HTML tables with relative ages ("2d", "1w",
+ * "1mo"). Rows without an age are treated as old (6 months), so they are
+ * stored as stale.
+ *
+ * @param content - Raw README content from SimplifyJobs repository
+ * @returns Parsed internship data with metadata
+ */
+function parseSimplify(content: string): ParsedSource {
+  return selectInternships(
+    parseListings(content),
+    Date.now() - 180 * 24 * 60 * 60 * 1000,
+  );
+}
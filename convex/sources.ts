@@ -0,0 +1,178 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { sourceParserUnion } from "./unions";
+
+/**
+ * Opportunity Source Registry
+ *
+ * This module manages the GitHub lists the scraper reads opportunities from.
+ * The scheduled scraper reads each enabled source on its own interval (see
+ * scraper.ts) and the opportunities UI uses them for source links and
+ * filtering, so adding a list (e.g. a new season or a new-grad list) only
+ * needs a new registry entry.
+ *
+ * Manage sources from the dashboard or CLI, e.g.:
+ *   npx convex run sources:seedSources
+ *   npx convex run sources:upsertSource '{"key": "...", ...}'
+ */
+
+// Minutes between scrapes for sources without an interval
+export const DEFAULT_SCRAPE_INTERVAL_MINUTES = 60;
+
+// Days a posting counts as fresh for sources without a freshness window
+export const DEFAULT_FRESHNESS_DAYS = 14;
+
+// Sources registered by `seedSources`. Keys match the `source` values of
+// opportunities scraped before the registry existed.
+const DEFAULT_SOURCES = [
+  {
+    key: "vanshb03",
+    label: "vanshb03 Summer 2026",
+    owner: "vanshb03",
+    repo: "Summer2026-Internships",
+    path: "README.md",
+    parser: "vansh-markdown" as const,
+    enabled: true,
+    intervalMinutes: 60,
+    freshnessDays: DEFAULT_FRESHNESS_DAYS,
+    defaultTerm: "Summer 2026",
+  },
+  {
+    key: "SimplifyJobs",
+    label: "Simplify Summer 2026",
+    owner: "SimplifyJobs",
+    repo: "Summer2026-Internships",
+    path: "README.md",
+    parser: "simplify-html" as const,
+    enabled: true,
+    intervalMinutes: 60,
+    freshnessDays: DEFAULT_FRESHNESS_DAYS,
+    defaultTerm: "Summer 2026",
+  },
+];
+
+/**
+ * Computes the cutoff before which a source's postings are stale
+ *
+ * Stale postings are still stored and can be browsed, but are hidden from
+ * the default opportunities view.
+ *
+ * @param source - Registered source
+ * @param now - Reference timestamp
+ * @returns Timestamp; postings created before it are stale
+ */
+export function getStaleBefore(source: Doc<"sources">, now: number): number {
+  const days = source.freshnessDays ?? DEFAULT_FRESHNESS_DAYS;
+  return now - days * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Retrieves all enabled opportunity sources
+ *
+ * @returns Enabled sources, ordered by label
+ */
+export const getSources = query({
+  args: {},
+  handler: async (ctx) => {
+    const sources = await ctx.db.query("sources").collect();
+    return sources
+      .filter((source) => source.enabled)
+      .sort((a, b) => a.label.localeCompare(b.label));
+  },
+});
+
+/**
+ * Retrieves a source by ID (internal query)
+ *
+ * @param sourceId - ID of the source
+ * @returns The source, or null if it was deleted
+ */
+export const getSource = internalQuery({
+  args: { sourceId: v.id("sources") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.sourceId);
+  },
+});
+
+/**
+ * Creates or updates a source by key (internal mutation)
+ *
+ * Changing the file or how it's parsed forgets the last scraped file, so
+ * the next scrape reads it even if its content is unchanged.
+ *
+ * @param key - Identifier stored on scraped opportunities
+ * @param label - Display name
+ * @param owner - GitHub username/organization
+ * @param repo - Repository name
+ * @param path - File path to scrape
+ * @param parser - Parser for the file's table format
+ * @param enabled - Whether the scraper should read this source (default true)
+ * @param intervalMinutes - Minutes between scrapes (optional, defaults to 60)
+ * @param freshnessDays - Days a posting counts as fresh (optional, defaults to 14)
+ * @param defaultTerm - Term for listings that don't name one (optional)
+ * @returns ID of the created or updated source
+ */
+export const upsertSource = internalMutation({
+  args: {
+    key: v.string(),
+    label: v.string(),
+    owner: v.string(),
+    repo: v.string(),
+    path: v.string(),
+    parser: sourceParserUnion,
+    enabled: v.optional(v.boolean()),
+    intervalMinutes: v.optional(v.number()),
+    freshnessDays: v.optional(v.number()),
+    defaultTerm: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const source = { ...args, enabled: args.enabled ?? true };
+    const existing = await ctx.db
+      .query("sources")
+      .withIndex("by_key", (q) => q.eq("key", args.key))
+      .unique();
+
+    // Re-flag stored opportunities in case the freshness window changed
+    await ctx.scheduler.runAfter(
+      0,
+      internal.opportunities.markStaleOpportunities,
+      {},
+    );
+
+    if (existing) {
+      // A different file, parser or default term changes the listings even
+      // if the file's content is the same, so don't skip the next scrape
+      const changed = (
+        ["owner", "repo", "path", "parser", "defaultTerm"] as const
+      ).some((field) => source[field] !== existing[field]);
+      await ctx.db.patch(existing._id, {
+        ...source,
+        ...(changed && { lastSha: undefined }),
+      });
+      return existing._id;
+    }
+    return await ctx.db.insert("sources", source);
+  },
+});
+
+/**
+ * Registers the default sources that aren't registered yet (internal mutation)
+ *
+ * Safe to run more than once; existing entries are left untouched.
+ */
+export const seedSources = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    for (const source of DEFAULT_SOURCES) {
+      const existing = await ctx.db
+        .query("sources")
+        .withIndex("by_key", (q) => q.eq("key", source.key))
+        .unique();
+      if (!existing) {
+        await ctx.db.insert("sources", source);
+      }
+    }
+  },
+});
@@ -0,0 +1,233 @@
+import { query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc } from "./_generated/dataModel";
+import { getStatusHistory } from "./history";
+
+/**
+ * Application Analytics Functions
+ *
+ * This module computes pipeline statistics from a user's applications and
+ * their timestamped status history. It answers questions like "which stage
+ * do I stall at?" and "how long do companies take to respond?".
+ *
+ * Metrics:
+ * - Funnel: how many applications reached each pipeline stage
+ * - Response rates: share of submitted applications that got any response
+ * - Stage timing: median days between consecutive stages
+ * - Sources: the same counts grouped by the opportunity source
+ */
+
+// Pipeline stages in order (rejected/archived are outcomes, not stages)
+const FUNNEL_STAGES = [
+  "interested",
+  "applied",
+  "assessment",
+  "interviewed",
+  "offered",
+] as const;
+
+type FunnelStage = (typeof FUNNEL_STAGES)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Per-application facts derived from its status history
+ */
+interface ApplicationTimeline {
+  reached: number; // Index of the furthest funnel stage reached (-1 if none)
+  rejected: boolean; // Whether the application was ever rejected
+  firstAt: Partial<Record<FunnelStage | "rejected", number>>; // First time each status was entered
+}
+
+/**
+ * Reduces an application's history to the facts the metrics need
+ *
+ * Reaching a later stage implies the earlier ones, so an application added
+ * straight into "interviewed" still counts as applied.
+ *
+ * @param application - Application to summarize
+ * @returns Furthest stage reached, rejection flag and first-entry timestamps
+ */
+function getTimeline(application: Doc<"applications">): ApplicationTimeline {
+  const timeline: ApplicationTimeline = {
+    reached: -1,
+    rejected: false,
+    firstAt: {},
+  };
+
+  for (const entry of getStatusHistory(application)) {
+    if (entry.status === "rejected") {
+      timeline.rejected = true;
+    }
+
+    const stageIndex = FUNNEL_STAGES.indexOf(entry.status as FunnelStage);
+    if (stageIndex > timeline.reached) {
+      timeline.reached = stageIndex;
+    }
+
+    if (entry.status === "archived") continue;
+
+    const key = entry.status as FunnelStage | "rejected";
+    const previous = timeline.firstAt[key];
+    if (previous === undefined || entry.at < previous) {
+      timeline.firstAt[key] = entry.at;
+    }
+  }
+
+  return timeline;
+}
+
+/**
+ * Computes the median of a list of numbers
+ *
+ * @param values - Numbers to take the median of
+ * @returns The median, or null when the list is empty
+ */
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+/**
+ * Computes response counts for a group of application timelines
+ *
+ * An application counts as submitted once it reached "applied", and as
+ * responded once it moved past "applied" or was rejected after applying.
+ *
+ * @param timelines - Timelines to summarize
+ * @returns Totals and rates for the group
+ */
+function getResponseSummary(timelines: ApplicationTimeline[]) {
+  const appliedIndex = FUNNEL_STAGES.indexOf("applied");
+  const submitted = timelines.filter((t) => t.reached >= appliedIndex);
+  const responded = submitted.filter(
+    (t) => t.reached > appliedIndex || t.rejected,
+  );
+  const interviewed = submitted.filter(
+    (t) => t.reached >= FUNNEL_STAGES.indexOf("interviewed"),
+  );
+  const offered = submitted.filter(
+    (t) => t.reached >= FUNNEL_STAGES.indexOf("offered"),
+  );
+  const rate = (count: number) =>
+    submitted.length > 0 ? count / submitted.length : null;
+
+  return {
+    total: timelines.length,
+    submitted: submitted.length,
+    responded: responded.length,
+    rejected: submitted.filter((t) => t.rejected).length,
+    responseRate: rate(responded.length),
+    interviewRate: rate(interviewed.length),
+    offerRate: rate(offered.length),
+  };
+}
+
+/**
+ * Retrieves pipeline analytics for the authenticated user's applications
+ *
+ * @returns Funnel counts, response rates, median days between stages and a
+ *          breakdown by opportunity source
+ */
+export const getApplicationStats = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    const applications = await ctx.db
+      .query("applications")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+
+    const timelines = applications.map(getTimeline);
+
+    // Funnel: number of applications that reached each stage
+    const funnel = FUNNEL_STAGES.map((stage, index) => ({
+      stage,
+      count: timelines.filter((t) => t.reached >= index).length,
+    }));
+
+    // Median days between consecutive stages (only when both are dated)
+    const stageDurations = FUNNEL_STAGES.slice(1).map((stage, index) => {
+      const from = FUNNEL_STAGES[index];
+      const days = timelines
+        .filter(
+          (t) =>
+            t.firstAt[from] !== undefined && t.firstAt[stage] !== undefined,
+        )
+        .map((t) => (t.firstAt[stage]! - t.firstAt[from]!) / DAY_MS)
+        .filter((d) => d >= 0);
+
+      return { from, to: stage, medianDays: median(days), count: days.length };
+    });
+
+    // Median days from applying to the first response of any kind
+    const responseDays = timelines
+      .map((t) => {
+        const appliedAt = t.firstAt.applied;
+        if (appliedAt === undefined) return null;
+
+        const responses = [
+          t.firstAt.assessment,
+          t.firstAt.interviewed,
+          t.firstAt.offered,
+          t.firstAt.rejected,
+        ].filter((at): at is number => at !== undefined && at >= appliedAt);
+        if (responses.length === 0) return null;
+
+        return (Math.min(...responses) - appliedAt) / DAY_MS;
+      })
+      .filter((d): d is number => d !== null);
+
+    // Group linked applications by the source of their opportunity
+    const opportunityIds = [
+      ...new Set(
+        applications
+          .map((application) => application.opportunityId)
+          .filter((id) => id !== undefined),
+      ),
+    ];
+    const opportunities = await Promise.all(
+      opportunityIds.map((id) => ctx.db.get(id)),
+    );
+    const sourceById = new Map(
+      opportunities
+        .filter((opportunity) => opportunity !== null)
+        .map((opportunity) => [opportunity._id, opportunity.source]),
+    );
+
+    const timelinesBySource = new Map<string, ApplicationTimeline[]>();
+    applications.forEach((application, index) => {
+      const source =
+        (application.opportunityId &&
+          sourceById.get(application.opportunityId)) ||
+        "manual";
+      timelinesBySource.set(source, [
+        ...(timelinesBySource.get(source) ?? []),
+        timelines[index],
+      ]);
+    });
+
+    const sources = [...timelinesBySource.entries()]
+      .map(([source, group]) => ({ source, ...getResponseSummary(group) }))
+      .sort((a, b) => b.total - a.total);
+
+    return {
+      funnel,
+      responses: {
+        ...getResponseSummary(timelines),
+        medianDaysToResponse: median(responseDays),
+      },
+      stageDurations,
+      sources,
+    };
+  },
+});
@@ -1,4 +1,4 @@
-import { v } from "convex/values";
+import { v, Infer } from "convex/values";
 
 /**
  * Union Type Definitions
@@ -32,3 +32,257 @@ export const statusUnion = v.union(
   v.literal("rejected"),
   v.literal("archived"),
 );
+
+/**
+ * Status History Entry
+ *
+ * A single transition in an application's status history. Records which
+ * status the application moved into, when it happened, and an optional
+ * note (e.g. "Recruiter emailed", "OA link received").
+ *
+ * Fields:
+ * - status: The status the application entered
+ * - at: Timestamp (ms) of when the status was entered
+ * - note: Optional free-text note about the transition
+ */
+export const historyEntry = v.object({
+  status: statusUnion,
+  at: v.number(),
+  note: v.optional(v.string()),
+});
+
+/**
+ * Duplicate Action Union Type
+ *
+ * What to do with an imported row that matches an existing application.
+ *
+ * Actions:
+ * - skip: Leave the existing application untouched and drop the row
+ * - update: Update the existing application's status and notes from the row
+ * - new: Import the row as a separate application anyway
+ */
+export const duplicateActionUnion = v.union(
+  v.literal("skip"),
+  v.literal("update"),
+  v.literal("new"),
+);
+
+/**
+ * Source Parser Union Type
+ *
+ * Identifies which README parser the scraper uses for an opportunity source.
+ *
+ * Parsers:
+ * - vansh-markdown: Markdown tables as used by vanshb03's lists
+ * - simplify-html: HTML tables as used by SimplifyJobs' lists
+ */
+export const sourceParserUnion = v.union(
+  v.literal("vansh-markdown"),
+  v.literal("simplify-html"),
+);
+
+/**
+ * Scrape Run Status Union Type
+ *
+ * Outcome of scraping a single source.
+ *
+ * Statuses:
+ * - success: The file changed and its listings were stored
+ * - unchanged: The file's SHA matched the last run, so it was skipped
+ * - error: Fetching, parsing or storing failed
+ */
+export const scrapeRunStatusUnion = v.union(
+  v.literal("success"),
+  v.literal("unchanged"),
+  v.literal("error"),
+);
+
+/**
+ * Sponsorship Union Type
+ *
+ * Work authorization requirements of an opportunity, as flagged by the
+ * upstream lists.
+ *
+ * Values:
+ * - unrestricted: Not flagged; sponsorship isn't ruled out
+ * - no_sponsorship: Does not offer visa sponsorship (🛂)
+ * - us_citizens_only: Requires U.S. citizenship (🇺🇸)
+ */
+export const sponsorshipUnion = v.union(
+  v.literal("unrestricted"),
+  v.literal("no_sponsorship"),
+  v.literal("us_citizens_only"),
+);
+
+/**
+ * Degree Level Union Type
+ *
+ * Minimum degree an opportunity requires.
+ *
+ * Levels:
+ * - bachelors: Open to undergraduates (not flagged)
+ * - masters: Advanced degree required (🎓) or a master's role
+ * - phd: PhD role
+ */
+export const degreeLevelUnion = v.union(
+  v.literal("bachelors"),
+  v.literal("masters"),
+  v.literal("phd"),
+);
+
+/**
+ * Work Mode Union Type
+ *
+ * Work arrangement of a posting location (see locationParser.ts).
+ *
+ * Modes:
+ * - remote: Fully remote ("Remote in USA")
+ * - hybrid: Partly in office ("Hybrid - Boston")
+ * - onsite: In office (default)
+ */
+export const workModeUnion = v.union(
+  v.literal("remote"),
+  v.literal("hybrid"),
+  v.literal("onsite"),
+);
+
+/**
+ * Location Entry Type
+ *
+ * A normalized place of a posting, parsed from its raw location text.
+ * Remote entries may have no place.
+ *
+ * Fields:
+ * - city: Optional city name (e.g. "New York")
+ * - region: Optional state or province code (e.g. "NY")
+ * - country: Optional country name (e.g. "United States")
+ * - mode: Work arrangement at this place
+ */
+export const locationEntry = v.object({
+  city: v.optional(v.string()),
+  region: v.optional(v.string()),
+  country: v.optional(v.string()),
+  mode: workModeUnion,
+});
+
+/**
+ * Opportunity Filters Type
+ *
+ * A combination of opportunity filters, as taken by `getOpportunities` and
+ * stored by saved searches. Empty or missing filters match everything.
+ *
+ * Fields:
+ * - search: Optional search term for job titles
+ * - source: Optional source key
+ * - company: Optional company IDs (any of them)
+ * - location: Optional city, state or country (see locationParser.ts)
+ * - workMode: Optional work arrangement
+ * - isOpen: Optional open (true) or closed (false) state
+ * - isStale: Optional stale (true) or fresh (false) state
+ * - term: Optional internship term (e.g. "Summer 2026")
+ * - sponsorship: Optional work authorization requirements
+ * - isFaang: Optional FAANG+ (true) or other (false) companies
+ * - degreeLevel: Optional minimum degree
+ */
+export const opportunityFilterFields = {
+  search: v.optional(v.string()),
+  source: v.optional(v.string()),
+  company: v.optional(v.array(v.id("companies"))),
+  location: v.optional(v.string()),
+  workMode: v.optional(workModeUnion),
+  isOpen: v.optional(v.boolean()),
+  isStale: v.optional(v.boolean()),
+  term: v.optional(v.string()),
+  sponsorship: v.optional(sponsorshipUnion),
+  isFaang: v.optional(v.boolean()),
+  degreeLevel: v.optional(degreeLevelUnion),
+};
+export const opportunityFilters = v.object(opportunityFilterFields);
+
+/**
+ * Opportunity Facet Union Type
+ *
+ * Posting detail counted for the opportunities filter (see facets.ts).
+ *
+ * Facets:
+ * - location: City, state or country label (see `getLocationLabel`)
+ * - workMode: Work arrangement
+ * - term: Internship term
+ * - sponsorship: Work authorization requirements
+ * - degreeLevel: Minimum degree
+ * - faang: FAANG+ companies (single value "true")
+ */
+export const opportunityFacetUnion = v.union(
+  v.literal("location"),
+  v.literal("workMode"),
+  v.literal("term"),
+  v.literal("sponsorship"),
+  v.literal("degreeLevel"),
+  v.literal("faang"),
+);
+
+/**
+ * Notification Kind Union Type
+ *
+ * What an in-app notification is about (see notifications.ts).
+ *
+ * Kinds:
+ * - new_matches: New opportunities match one of the user's saved searches
+ * - stale_application: An application hasn't been updated for a while
+ * - posting_closed: The posting an application was created from closed
+ * - follow_up: A follow-up reminder on an application is due
+ */
+export const notificationKindUnion = v.union(
+  v.literal("new_matches"),
+  v.literal("stale_application"),
+  v.literal("posting_closed"),
+  v.literal("follow_up"),
+);
+
+/**
+ * Reminder Entry
+ *
+ * A follow-up reminder on an application (see reminders.ts), e.g. to chase
+ * a recruiter who went quiet.
+ *
+ * Fields:
+ * - id: Random identifier, unique within the application
+ * - at: Timestamp (ms) of when the reminder is due
+ * - note: Optional free-text note (e.g. "Email the recruiter")
+ * - isDue: Whether the reminder was flipped to due (set by the scheduler)
+ */
+export const reminderEntry = v.object({
+  id: v.string(),
+  at: v.number(),
+  note: v.optional(v.string()),
+  isDue: v.boolean(),
+});
+
+/**
+ * Event Kind Union Type
+ *
+ * What a scheduled application event is (see events.ts).
+ *
+ * Kinds:
+ * - phone_screen: Recruiter or phone screen
+ * - oa_deadline: Deadline to complete an online assessment
+ * - onsite: Onsite (or final round) interview
+ * - offer_deadline: Deadline to accept or decline an offer
+ * - other: Any other dated event
+ */
+export const eventKindUnion = v.union(
+  v.literal("phone_screen"),
+  v.literal("oa_deadline"),
+  v.literal("onsite"),
+  v.literal("offer_deadline"),
+  v.literal("other"),
+);
+
+// Display names of the event kinds, shared by the UI and the digest
+export const eventKindLabels: Record<Infer<typeof eventKindUnion>, string> = {
+  phone_screen: "Phone screen",
+  oa_deadline: "OA deadline",
+  onsite: "Onsite",
+  offer_deadline: "Offer deadline",
+  other: "Event",
+};
@@ -0,0 +1,136 @@
+import { v } from "convex/values";
+import {
+  internalMutation,
+  internalQuery,
+  mutation,
+  QueryCtx,
+} from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+/**
+ * Uploaded Files
+ *
+ * This module records which user uploaded each import file (see import.ts),
+ * so files in storage are only read or deleted on behalf of their owner.
+ * Files are uploaded to a URL from `generateUploadUrl` and then recorded
+ * with `recordUpload`. They are deleted once imported, when the import
+ * dialog discards them, or a day after uploading if neither happens.
+ */
+
+// How long an upload is kept when it's never imported or discarded (24 hours)
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Finds the upload record of a file
+ *
+ * @param ctx - Query context
+ * @param storageId - Storage ID of the file
+ * @returns Upload record, or null if the file wasn't recorded
+ */
+async function findUpload(
+  ctx: QueryCtx,
+  storageId: Id<"_storage">,
+): Promise<Doc<"uploads"> | null> {
+  return await ctx.db
+    .query("uploads")
+    .withIndex("by_storageId", (q) => q.eq("storageId", storageId))
+    .unique();
+}
+
+/**
+ * Records the authenticated user as the uploader of a file
+ *
+ * Called after uploading to the URL from `generateUploadUrl`, before the
+ * file is imported. Schedules the file's deletion in case it's abandoned.
+ *
+ * @param storageId - Storage ID returned by the upload
+ */
+export const recordUpload = mutation({
+  args: { storageId: v.id("_storage") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    const existing = await findUpload(ctx, args.storageId);
+    if (existing) {
+      if (existing.userId !== userId) {
+        throw new Error("Client is not authorized to use this file!");
+      }
+      return;
+    }
+
+    await ctx.db.insert("uploads", {
+      storageId: args.storageId,
+      userId,
+      uploadedAt: Date.now(),
+    });
+    await ctx.scheduler.runAfter(UPLOAD_TTL_MS, internal.uploads.deleteUpload, {
+      storageId: args.storageId,
+    });
+  },
+});
+
+/**
+ * Deletes an upload of the authenticated user that won't be imported
+ *
+ * Called when the import dialog is closed, or another file is picked,
+ * after a preview. Does nothing if the file was already deleted (e.g.
+ * after importing it).
+ *
+ * @param storageId - Storage ID of the file
+ */
+export const discardImportUpload = mutation({
+  args: { storageId: v.id("_storage") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    if (userId === null) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    const upload = await findUpload(ctx, args.storageId);
+    if (!upload) return;
+    if (upload.userId !== userId) {
+      throw new Error("Client is not authorized to delete this file!");
+    }
+
+    await ctx.storage.delete(upload.storageId);
+    await ctx.db.delete(upload._id);
+  },
+});
+
+/**
+ * Retrieves the upload record of a file (internal query)
+ *
+ * @param storageId - Storage ID of the file
+ * @returns Upload record, or null if the file wasn't recorded
+ */
+export const getUpload = internalQuery({
+  args: { storageId: v.id("_storage") },
+  handler: async (ctx, args) => {
+    return await findUpload(ctx, args.storageId);
+  },
+});
+
+/**
+ * Deletes an uploaded file and its upload record (internal mutation)
+ *
+ * Does nothing if the file was already deleted.
+ *
+ * @param storageId - Storage ID of the file
+ */
+export const deleteUpload = internalMutation({
+  args: { storageId: v.id("_storage") },
+  handler: async (ctx, args) => {
+    const upload = await findUpload(ctx, args.storageId);
+    if (!upload) return;
+
+    await ctx.storage.delete(upload.storageId);
+    await ctx.db.delete(upload._id);
+  },
+});
@@ -1,12 +1,13 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation, internalQuery, QueryCtx } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
 
 /**
  * User Management Functions
  *
  * This module handles user profile operations and subscription management.
- * Includes functions for retrieving user data and managing payment/subscription status.
+ * Includes functions for retrieving user data, managing payment/subscription status,
+ * issuing calendar feed tokens, the weekly digest opt-in and checking admin access.
  */
 
 /**
@@ -98,3 +99,94 @@ export const deleteUserCustomerId = mutation({
     await ctx.db.patch(args.userId, { sub: "basic", customerId: undefined });
   },
 });
+
+/**
+ * Returns the user's calendar feed URL, creating its token if needed
+ *
+ * Calendar apps subscribe to the feed URL without signing in, so the URL
+ * carries a secret token. Rotating the token invalidates the previous URL.
+ *
+ * @param rotate - Whether to replace an existing token
+ * @returns The calendar feed URL containing the token
+ */
+export const createCalendarToken = mutation({
+  args: { rotate: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    const user = await ctx.db.get(userId);
+    let token = user?.calendarToken;
+    if (!token || args.rotate) {
+      token = crypto.randomUUID();
+      await ctx.db.patch(userId, { calendarToken: token });
+    }
+
+    return `${process.env.CONVEX_SITE_URL}/calendar.ics?token=${token}`;
+  },
+});
+
+/**
+ * Opts the authenticated user in to or out of the weekly email digest
+ *
+ * The digest is sent to the user's email address (see digests.ts).
+ *
+ * @param enabled - Whether to receive the digest
+ */
+export const setDigestOptIn = mutation({
+  args: { enabled: v.boolean() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Client is not authenticated!");
+    }
+
+    const user = await ctx.db.get(userId);
+    if (args.enabled && !user?.email) {
+      throw new Error("An email address is required for the digest!");
+    }
+
+    await ctx.db.patch(userId, { digestOptIn: args.enabled });
+  },
+});
+
+/**
+ * Looks up a user by calendar feed token (internal query)
+ *
+ * @param token - Calendar feed token from the feed URL
+ * @returns The matching user, or null if the token is unknown
+ */
+export const getUserByCalendarToken = internalQuery({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("users")
+      .withIndex("calendarToken", (q) => q.eq("calendarToken", args.token))
+      .unique();
+  },
+});
+
+/**
+ * Checks whether the current user is an admin
+ *
+ * Admins are listed by email in the `ADMIN_EMAILS` environment variable
+ * (comma separated) of the Convex deployment.
+ *
+ * @param ctx - Query or mutation context
+ * @returns True if the authenticated user's email is an admin email
+ */
+export async function isAdmin(ctx: QueryCtx): Promise<boolean> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) return false;
+
+  const user = await ctx.db.get(userId);
+  if (!user?.email) return false;
+
+  const adminEmails = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  return adminEmails.includes(user.email.toLowerCase());
+}
@@ -5,7 +5,7 @@ import {
 } from "@convex-dev/auth/nextjs/server";
 
 const isHomePage = createRouteMatcher(["/"]);
-const isProtectedRoute = createRouteMatcher(["/dashboard"]);
+const isProtectedRoute = createRouteMatcher(["/dashboard(.*)"]);
 
 export default convexAuthNextjsMiddleware(async (request, { convexAuth }) => {
   if (isHomePage(request) && (await convexAuth.isAuthenticated())) {
@@ -0,0 +1,32 @@
+/**
+ * Download Utility Function
+ *
+ * Saves text content as a file in the browser by creating a temporary object
+ * URL and clicking a hidden anchor element.
+ *
+ * @param content - The file content
+ * @param fileName - The name the file is saved as
+ * @param mimeType - The MIME type of the content
+ *
+ * @example
+ * ```typescript
+ * downloadFile("a,b\n1,2", "export.csv", "text/csv");
+ * ```
+ */
+export default function downloadFile(
+  content: string,
+  fileName: string,
+  mimeType: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+
+  // Release the object URL once the download has started
+  URL.revokeObjectURL(url);
+}
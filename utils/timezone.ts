@@ -0,0 +1,111 @@
+/**
+ * Time Zone Utility Functions
+ *
+ * Converts between UTC timestamps and wall-clock times in an IANA time zone,
+ * using only the built-in Intl API. Events are stored as UTC timestamps with
+ * the time zone they were scheduled in (see convex/events.ts); these helpers
+ * fill and read datetime-local inputs in that zone.
+ *
+ * @example
+ * ```typescript
+ * const at = fromZonedInputValue("2026-03-02T10:00", "America/New_York");
+ * toZonedInputValue(at, "America/New_York"); // "2026-03-02T10:00"
+ * formatInTimeZone(at, "Europe/London"); // "Mon, Mar 2, 3:00 PM GMT"
+ * ```
+ */
+
+/**
+ * Returns the browser's time zone
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Returns every time zone the browser knows, always including the local one
+ */
+export function getTimeZones(): string[] {
+  const local = getLocalTimeZone();
+  const zones =
+    typeof Intl.supportedValuesOf === "function"
+      ? Intl.supportedValuesOf("timeZone")
+      : [];
+  return zones.includes(local) ? zones : [local, ...zones];
+}
+
+/**
+ * Returns the offset (ms) of a time zone from UTC at a given instant
+ */
+function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(timestamp);
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second"),
+  );
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Formats a timestamp for a datetime-local input in a time zone
+ *
+ * @param timestamp - UTC timestamp
+ * @param timeZone - IANA time zone
+ * @returns Wall-clock time as "YYYY-MM-DDTHH:mm"
+ */
+export function toZonedInputValue(timestamp: number, timeZone: string): string {
+  const offset = getTimeZoneOffset(timestamp, timeZone);
+  return new Date(timestamp + offset).toISOString().slice(0, 16);
+}
+
+/**
+ * Parses a datetime-local input value as a wall-clock time in a time zone
+ *
+ * The offset is looked up twice, so times next to a daylight saving change
+ * resolve to the offset in effect at that time.
+ *
+ * @param value - Wall-clock time as "YYYY-MM-DDTHH:mm"
+ * @param timeZone - IANA time zone
+ * @returns UTC timestamp, or NaN if the value is invalid
+ */
+export function fromZonedInputValue(value: string, timeZone: string): number {
+  const wallClock = Date.parse(`${value}:00Z`);
+  if (isNaN(wallClock)) return NaN;
+
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return wallClock - getTimeZoneOffset(guess, timeZone);
+}
+
+/**
+ * Formats a timestamp as a readable date and time in a time zone
+ *
+ * @param timestamp - UTC timestamp
+ * @param timeZone - IANA time zone
+ * @returns E.g. "Mon, Mar 2, 10:00 AM EST"
+ */
+export function formatInTimeZone(timestamp: number, timeZone: string): string {
+  return new Date(timestamp).toLocaleString([], {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}